@@ -1,11 +1,102 @@
-import {DynamoDBClient, PutItemCommand} from "@aws-sdk/client-dynamodb";
-import {marshall} from "@aws-sdk/util-dynamodb";
+import {
+    BatchGetItemCommand,
+    BatchWriteItemCommand,
+    ConditionalCheckFailedException,
+    DynamoDBClient,
+    PutItemCommand,
+    PutItemCommandInput,
+    QueryCommand,
+    ScanCommand,
+    UpdateItemCommand,
+    UpdateItemCommandOutput,
+    WriteRequest
+} from "@aws-sdk/client-dynamodb";
+import {marshall, unmarshall} from "@aws-sdk/util-dynamodb";
+import {createHash} from "node:crypto";
+import {getConfig} from "../config/config";
+import {Organization} from "../organization/organization";
+import {appendApplicantSample, ApplicantSample} from "../posting/applicants";
+import {diffFields, PostingVersion, rebuildPosting} from "../posting/history";
+import {stableStringify} from "../util/util";
 
-const dynamoClient = new DynamoDBClient({region: "ap-northeast-2"});
+let dynamoClient: DynamoDBClient | undefined;
 
-export async function saveToDynamoDB(data: any[]): Promise<void> {
-    for (const item of data) {
+const BATCH_WRITE_SIZE = 25;
+const BATCH_GET_SIZE = 100;
+const MAX_BATCH_RETRIES = 5;
+const BOOKKEEPING_KEYS = ["contentHash", "firstSeenAt", "lastSeenAt", "version", "applicantHistory"];
+const THROTTLING_ERRORS = ["ProvisionedThroughputExceededException", "ThrottlingException", "RequestLimitExceeded"];
+
+export interface WriteSummary {
+    added: number;
+    updated: number;
+    unchanged: number;
+    skipped: number;
+}
+
+export interface RemovalSummary {
+    removed: number;
+    skipped: number;
+}
+
+export interface StoredState {
+    contentHash?: string;
+    firstSeenAt?: string;
+    lastSeenAt?: string;
+    version?: number;
+    applicantHistory?: ApplicantSample[];
+}
 
+function getDynamoClient(): DynamoDBClient {
+    const {region, endpoints} = getConfig();
+    dynamoClient ??= new DynamoDBClient({region, endpoint: endpoints.dynamodb});
+    return dynamoClient;
+}
+
+/**
+ * Saves postings to DynamoDB, skipping the ones whose content has not changed.
+ *
+ * The function compares a content hash of every posting with the hash stored on the existing item.
+ * New and changed postings are written with one conditional `PutItem` each, 25 at a time, keeping the
+ * stored `firstSeenAt` and stamping `lastSeenAt`. Each write is conditional on the item still being at the
+ * version that was read (or still missing, for a new posting), so a row written concurrently since is
+ * skipped instead of losing its `firstSeenAt`. `BatchWriteItem` cannot carry conditions, so this costs a
+ * request per posting; a throttled write is retried with exponential backoff, up to 5 times, before the
+ * crawl fails. Unchanged postings are not rewritten; only their `lastSeenAt` is refreshed with an update
+ * that is conditional on the stored hash still matching.
+ *
+ * A posting last seen by a newer crawl than `seenAt` (e.g., when a backfill replays an old crawl) is
+ * skipped, so an old crawl never rolls back a stored posting, its `lastSeenAt` or its history.
+ *
+ * Every written posting gets the next `version`. When a history table is configured, the fields that
+ * changed are recorded there as a {@link PostingVersion} once the posting has been written, so a write
+ * that lost its condition to another writer leaves no version behind, and the conditional write lets only
+ * one writer record each version.
+ *
+ * Written postings also keep their `applicantHistory`, the {@link ApplicantSample}s of the crawls that saw a
+ * different number of applicants. Unchanged postings have the same count as their last sample.
+ *
+ * When a crawl is written in several batches, the stored states can be fetched once with
+ * {@link fetchStoredStates} and passed to every call; they are updated with the items written.
+ *
+ * @param {any[]} data - The postings to be saved.
+ * @param {string} seenAt - The ISO timestamp of the crawl, defaults to now.
+ * @param {Map<number, StoredState>} stored - The stored states, fetched from the table if omitted.
+ * @param {string} sourceKey - The S3 key of the crawl, recorded in the history.
+ * @returns {Promise<WriteSummary>} - The number of added, updated, unchanged and skipped postings.
+ */
+export async function saveToDynamoDB(
+    data: any[],
+    seenAt: string = new Date().toISOString(),
+    stored?: Map<number, StoredState>,
+    sourceKey: string = "",
+): Promise<WriteSummary> {
+    const summary: WriteSummary = {added: 0, updated: 0, unchanged: 0, skipped: 0};
+    stored ??= await fetchStoredStates();
+    const puts: { item: Record<string, any>; scanned?: StoredState }[] = [];
+    const unchanged: { id: number; contentHash: string }[] = [];
+
+    for (const item of data) {
         if (typeof item.id === "string") {
             if (!isNaN(Number(item.id))) {
                 item.id = parseInt(item.id, 10);
@@ -15,17 +106,438 @@ export async function saveToDynamoDB(data: any[]): Promise<void> {
             }
         }
 
-        const params = {
-            TableName: process.env.RECRUIT_TABLE,
-            Item: marshall(item),
-        };
+        const contentHash = computeContentHash(item);
+        const existing = stored.get(item.id);
+
+        if (existing?.lastSeenAt > seenAt) {
+            summary.skipped++;
+            continue;
+        }
+        if (existing?.contentHash === contentHash) {
+            unchanged.push({id: item.id, contentHash});
+            existing.lastSeenAt = seenAt;
+            summary.unchanged++;
+            continue;
+        }
+
+        const firstSeenAt = existing?.firstSeenAt ?? seenAt;
+        const version = (existing?.version ?? 0) + 1;
+        const applicantHistory = typeof item.applicantCount === "number"
+            ? appendApplicantSample(existing?.applicantHistory ?? [], {crawledAt: seenAt, applicantCount: item.applicantCount})
+            : existing?.applicantHistory;
+        stored.set(item.id, {contentHash, firstSeenAt, lastSeenAt: seenAt, version, applicantHistory});
+        puts.push({
+            item: {...item, contentHash, firstSeenAt, lastSeenAt: seenAt, version, applicantHistory},
+            scanned: existing,
+        });
+    }
+
+    try {
+        const history = Boolean(getConfig().historyTable);
+        // Read before the puts replace the stored postings; the changes are diffed against them.
+        const previous = history && puts.length > 0
+            ? await getStoredPostings(puts.filter(({item}) => item.version > 1).map(({item}) => item.id))
+            : new Map<number, Record<string, any>>();
+
+        for (let i = 0; i < puts.length; i += BATCH_WRITE_SIZE) {
+            const chunk = puts.slice(i, i + BATCH_WRITE_SIZE);
+            const written = await Promise.all(chunk.map(({item, scanned}) => putIfNotChanged(item, scanned, seenAt)));
+            const versions: PostingVersion[] = [];
+            written.forEach((ok, index) => {
+                const {item, scanned} = chunk[index];
+                if (!ok) {
+                    stored.delete(item.id);
+                    summary.skipped++;
+                    return;
+                }
+                if (scanned) {
+                    summary.updated++;
+                } else {
+                    summary.added++;
+                }
+                versions.push({
+                    postingId: item.id,
+                    version: item.version,
+                    changes: diffFields(item.version > 1 ? previous.get(item.id) : undefined, item, BOOKKEEPING_KEYS),
+                    sourceKey,
+                    crawledAt: seenAt,
+                });
+            });
+            if (history && versions.length > 0) {
+                await savePostingVersions(versions);
+            }
+        }
+        for (const {id, contentHash} of unchanged) {
+            await touchLastSeenAt(id, contentHash, seenAt);
+        }
+    } catch (error) {
+        console.error("Error saving items to DynamoDB:", error);
+        throw error;
+    }
+
+    console.log(`Data saved to DynamoDB: added=${summary.added}, updated=${summary.updated}, unchanged=${summary.unchanged}, skipped=${summary.skipped}`);
+    return summary;
+}
 
+/**
+ * Computes a stable hash of a posting's content.
+ *
+ * The posting is serialized with its keys sorted at every level so the hash does not depend on the
+ * crawler's key order. Bookkeeping attributes written by this module are left out, so a stored item
+ * and a freshly transformed posting with the same content produce the same hash.
+ *
+ * @param {Record<string, any>} item - The posting to be hashed.
+ * @returns {string} - The hex encoded SHA-256 hash of the posting's content.
+ */
+export function computeContentHash(item: Record<string, any>): string {
+    const content = Object.fromEntries(
+        Object.entries(item).filter(([key]) => !BOOKKEEPING_KEYS.includes(key))
+    );
+    return createHash("sha256").update(stableStringify(content)).digest("hex");
+}
+
+/**
+ * Reads the content hash, first- and last-seen times, version and applicant history of every stored posting.
+ *
+ * @returns {Promise<Map<number, StoredState>>} - The stored states by posting id.
+ */
+export async function fetchStoredStates(): Promise<Map<number, StoredState>> {
+    const states = new Map<number, StoredState>();
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+        const response = await getDynamoClient().send(new ScanCommand({
+            TableName: getConfig().recruitTable,
+            ProjectionExpression: "id, contentHash, firstSeenAt, lastSeenAt, #version, applicantHistory",
+            ExpressionAttributeNames: {"#version": "version"},
+            ExclusiveStartKey: exclusiveStartKey,
+        }));
+        for (const raw of response.Items ?? []) {
+            const {id, contentHash, firstSeenAt, lastSeenAt, version, applicantHistory} = unmarshall(raw);
+            states.set(id, {contentHash, firstSeenAt, lastSeenAt, version, applicantHistory});
+        }
+        exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return states;
+}
+
+async function batchWriteWithRetry(requests: WriteRequest[], tableName: string = getConfig().recruitTable): Promise<void> {
+    let pending = requests;
+
+    for (let attempt = 0; pending.length > 0; attempt++) {
+        if (attempt > MAX_BATCH_RETRIES) {
+            throw new Error(`Failed to write ${pending.length} item(s) after ${MAX_BATCH_RETRIES} retries`);
+        }
+        if (attempt > 0) {
+            await sleep(100 * 2 ** attempt);
+        }
+
+        const response = await getDynamoClient().send(new BatchWriteItemCommand({
+            RequestItems: {[tableName]: pending},
+        }));
+        pending = response.UnprocessedItems?.[tableName] ?? [];
+    }
+}
+
+/**
+ * Sends a single-item request, retrying it with exponential backoff while DynamoDB throttles it.
+ *
+ * @param {() => Promise<T>} send - Sends the request.
+ * @returns {Promise<T>} - The response of the first attempt that was not throttled.
+ */
+async function sendWithRetry<T>(send: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
         try {
-            await dynamoClient.send(new PutItemCommand(params));
+            return await send();
         } catch (error) {
-            console.error("Error saving item to DynamoDB:", error);
-            throw error;
+            if (!THROTTLING_ERRORS.includes(error?.name) || attempt >= MAX_BATCH_RETRIES) {
+                throw error;
+            }
+            await sleep(100 * 2 ** (attempt + 1));
+        }
+    }
+}
+
+/**
+ * Writes a posting unless its row changed since the stored states were read.
+ *
+ * A new posting is only written if no row exists yet; a stored posting only if the row still has the
+ * version that was read and was not seen by a newer crawl.
+ *
+ * @returns {Promise<boolean>} - True if the posting was written, false if the condition failed.
+ */
+async function putIfNotChanged(item: Record<string, any>, scanned: StoredState | undefined, seenAt: string): Promise<boolean> {
+    let condition: Pick<PutItemCommandInput, "ConditionExpression" | "ExpressionAttributeNames" | "ExpressionAttributeValues">;
+    if (!scanned) {
+        condition = {ConditionExpression: "attribute_not_exists(id)"};
+    } else {
+        condition = {
+            ConditionExpression: `${scanned.version === undefined ? "attribute_not_exists(#version)" : "#version = :version"} ` +
+                "AND (attribute_not_exists(lastSeenAt) OR lastSeenAt <= :seenAt)",
+            ExpressionAttributeNames: {"#version": "version"},
+            ExpressionAttributeValues: marshall({":version": scanned.version, ":seenAt": seenAt}, {removeUndefinedValues: true}),
+        };
+    }
+
+    try {
+        await sendWithRetry(() => getDynamoClient().send(new PutItemCommand({
+            TableName: getConfig().recruitTable,
+            Item: marshall(item, {removeUndefinedValues: true}),
+            ...condition,
+        })));
+        return true;
+    } catch (error) {
+        if (error instanceof ConditionalCheckFailedException) {
+            console.warn(`Skipped write of id=${item.id}: item changed since it was read`);
+            return false;
         }
+        throw error;
     }
-    console.log("Data saved to DynamoDB.");
+}
+
+async function touchLastSeenAt(id: number, contentHash: string, seenAt: string): Promise<void> {
+    try {
+        await sendWithRetry(() => getDynamoClient().send(new UpdateItemCommand({
+            TableName: getConfig().recruitTable,
+            Key: marshall({id}),
+            UpdateExpression: "SET lastSeenAt = :seenAt, firstSeenAt = if_not_exists(firstSeenAt, :seenAt)",
+            ConditionExpression: "contentHash = :contentHash AND (attribute_not_exists(lastSeenAt) OR lastSeenAt <= :seenAt)",
+            ExpressionAttributeValues: marshall({":seenAt": seenAt, ":contentHash": contentHash}),
+        })));
+    } catch (error) {
+        if (error instanceof ConditionalCheckFailedException) {
+            console.warn(`Skipped lastSeenAt update for id=${id}: item changed or was seen by a newer crawl since it was read`);
+            return;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Finds the ids of postings stored for a given year and semester that have not been marked removed.
+ *
+ * @param {number} year - The year of the internship program.
+ * @param {string} semester - The semester of the internship program (e.g., "겨울학기").
+ * @returns {Promise<number[]>} - The ids of stored postings that are still listed.
+ */
+export async function findListedPostingIds(year: number, semester: string): Promise<number[]> {
+    const ids: number[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+        const response = await getDynamoClient().send(new ScanCommand({
+            TableName: getConfig().recruitTable,
+            ProjectionExpression: "id",
+            FilterExpression: "#year = :year AND semester = :semester AND attribute_not_exists(removedAt)",
+            ExpressionAttributeNames: {"#year": "year"},
+            ExpressionAttributeValues: marshall({":year": year, ":semester": semester}),
+            ExclusiveStartKey: exclusiveStartKey,
+        }));
+        for (const raw of response.Items ?? []) {
+            ids.push(unmarshall(raw).id);
+        }
+        exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return ids;
+}
+
+/**
+ * Marks postings as closed because they disappeared from the crawl.
+ *
+ * The items are kept; their status is set to false and `removedAt` and `removedReason` are recorded.
+ * The stored content hash is cleared so the posting is rewritten in full if it ever reappears. The
+ * removal is a new version of the posting and is recorded in the history table when one is configured.
+ * A posting deleted since its id was read is skipped.
+ *
+ * @param {number[]} ids - The ids of the postings to be closed.
+ * @param {string} reason - Why the postings were closed.
+ * @param {string} removedAt - The ISO timestamp of the crawl that no longer contained the postings.
+ * @param {string} sourceKey - The S3 key of that crawl, recorded in the history.
+ * @returns {Promise<RemovalSummary>} - The number of postings marked removed and skipped.
+ */
+export async function markPostingsRemoved(
+    ids: number[],
+    reason: string,
+    removedAt: string,
+    sourceKey: string = "",
+): Promise<RemovalSummary> {
+    const summary: RemovalSummary = {removed: 0, skipped: 0};
+    const versions: PostingVersion[] = [];
+
+    for (const id of ids) {
+        const response = await closePosting(id, reason, removedAt);
+        if (!response) {
+            summary.skipped++;
+            continue;
+        }
+        summary.removed++;
+
+        const previous = unmarshall(response.Attributes ?? {});
+        const version = (previous.version ?? 0) + 1;
+        const current = {...previous, status: false, removedAt, removedReason: reason};
+        versions.push({
+            postingId: id,
+            version,
+            changes: diffFields(version > 1 ? previous : undefined, current, BOOKKEEPING_KEYS),
+            sourceKey,
+            crawledAt: removedAt,
+        });
+    }
+
+    if (getConfig().historyTable) {
+        await savePostingVersions(versions);
+    }
+    return summary;
+}
+
+async function closePosting(id: number, reason: string, removedAt: string): Promise<UpdateItemCommandOutput | undefined> {
+    try {
+        return await getDynamoClient().send(new UpdateItemCommand({
+            TableName: getConfig().recruitTable,
+            Key: marshall({id}),
+            UpdateExpression: "SET #status = :closed, removedAt = :removedAt, removedReason = :reason, " +
+                "#version = if_not_exists(#version, :zero) + :one REMOVE contentHash",
+            ConditionExpression: "attribute_exists(id)",
+            ExpressionAttributeNames: {"#status": "status", "#version": "version"},
+            ExpressionAttributeValues: marshall({
+                ":closed": false,
+                ":removedAt": removedAt,
+                ":reason": reason,
+                ":zero": 0,
+                ":one": 1,
+            }),
+            ReturnValues: "ALL_OLD",
+        }));
+    } catch (error) {
+        if (error instanceof ConditionalCheckFailedException) {
+            console.warn(`Skipped removal of id=${id}: item no longer exists`);
+            return undefined;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Appends versions of postings to the history table.
+ *
+ * @param {PostingVersion[]} versions - The versions to be recorded.
+ */
+export async function savePostingVersions(versions: PostingVersion[]): Promise<void> {
+    const table = getConfig().historyTable;
+    const puts: WriteRequest[] = versions.map((version) => ({
+        PutRequest: {Item: marshall(version, {removeUndefinedValues: true})},
+    }));
+
+    for (let i = 0; i < puts.length; i += BATCH_WRITE_SIZE) {
+        await batchWriteWithRetry(puts.slice(i, i + BATCH_WRITE_SIZE), table);
+    }
+}
+
+/**
+ * Reads every recorded version of a posting from the history table, oldest first.
+ *
+ * @param {number} id - The id of the posting.
+ * @returns {Promise<PostingVersion[]>} - The versions of the posting, empty if none were recorded.
+ */
+export async function getPostingHistory(id: number): Promise<PostingVersion[]> {
+    const versions: PostingVersion[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+        const response = await getDynamoClient().send(new QueryCommand({
+            TableName: getConfig().historyTable,
+            KeyConditionExpression: "postingId = :id",
+            ExpressionAttributeValues: marshall({":id": id}),
+            ExclusiveStartKey: exclusiveStartKey,
+        }));
+        for (const raw of response.Items ?? []) {
+            versions.push(unmarshall(raw) as PostingVersion);
+        }
+        exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return versions;
+}
+
+/**
+ * Rebuilds a posting as it was stored after a past crawl, from its recorded history.
+ *
+ * @param {number} id - The id of the posting.
+ * @param {string} asOf - An ISO timestamp; the posting is rebuilt from the versions crawled at or before it.
+ * @returns {Promise<Record<string, any> | null>} - The posting at that time, or null if it was not stored yet.
+ */
+export async function getPostingAsOf(id: number, asOf: string): Promise<Record<string, any> | null> {
+    return rebuildPosting(await getPostingHistory(id), asOf);
+}
+
+/**
+ * Reads the stored postings with the given ids.
+ *
+ * Ids are read with `BatchGetItem` in chunks of 100; keys left unprocessed by DynamoDB are retried with backoff.
+ *
+ * @param {number[]} ids - The ids of the postings to read.
+ * @returns {Promise<Map<number, Record<string, any>>>} - The stored postings by id; missing ids are left out.
+ */
+export async function getStoredPostings(ids: number[]): Promise<Map<number, Record<string, any>>> {
+    return batchGetItems(getConfig().recruitTable, ids);
+}
+
+/**
+ * Reads the stored organizations with the given ids from the organization table.
+ *
+ * @param {string[]} ids - The ids of the organizations to read.
+ * @returns {Promise<Map<string, Organization>>} - The stored organizations by id; missing ids are left out.
+ */
+export async function getStoredOrganizations(ids: string[]): Promise<Map<string, Organization>> {
+    return batchGetItems(getConfig().organizationTable, ids);
+}
+
+/**
+ * Writes organizations to the organization table, replacing the stored items.
+ *
+ * @param {Organization[]} organizations - The merged organizations to be written.
+ */
+export async function saveOrganizations(organizations: Organization[]): Promise<void> {
+    const table = getConfig().organizationTable;
+    const puts: WriteRequest[] = organizations.map((organization) => ({
+        PutRequest: {Item: marshall(organization, {removeUndefinedValues: true})},
+    }));
+
+    for (let i = 0; i < puts.length; i += BATCH_WRITE_SIZE) {
+        await batchWriteWithRetry(puts.slice(i, i + BATCH_WRITE_SIZE), table);
+    }
+    console.log(`Organizations saved to DynamoDB: ${organizations.length}`);
+}
+
+async function batchGetItems<K extends number | string, T>(table: string, ids: K[]): Promise<Map<K, T>> {
+    const items = new Map<K, T>();
+
+    for (let i = 0; i < ids.length; i += BATCH_GET_SIZE) {
+        let keys = ids.slice(i, i + BATCH_GET_SIZE).map((id) => marshall({id}));
+        for (let attempt = 0; keys.length > 0; attempt++) {
+            if (attempt > MAX_BATCH_RETRIES) {
+                throw new Error(`Failed to read ${keys.length} item(s) after ${MAX_BATCH_RETRIES} retries`);
+            }
+            if (attempt > 0) {
+                await sleep(100 * 2 ** attempt);
+            }
+
+            const response = await getDynamoClient().send(new BatchGetItemCommand({
+                RequestItems: {[table]: {Keys: keys}},
+            }));
+            for (const raw of response.Responses?.[table] ?? []) {
+                const item = unmarshall(raw);
+                items.set(item.id, item as T);
+            }
+            keys = response.UnprocessedKeys?.[table]?.Keys ?? [];
+        }
+    }
+
+    return items;
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
 }
@@ -1,15 +1,174 @@
 import {Client as ElasticClient} from "@elastic/elasticsearch";
+import {getConfig} from "../config/config";
 
-const esClient = new ElasticClient({
-    node: process.env.ELASTICSEARCH_ENDPOINT || "http://localhost:9200",
-});
+let esClient: ElasticClient | undefined;
 
+function getElasticClient(): ElasticClient {
+    esClient ??= new ElasticClient({node: getConfig().elasticsearch.endpoint});
+    return esClient;
+}
+
+const BULK_CHUNK_SIZE = 500;
+
+/**
+ * Index settings and mappings for recruit postings.
+ *
+ * Korean free text is analyzed with the nori tokenizer (the `analysis-nori` plugin must be installed on
+ * the cluster). Fields used for filtering are keywords and the posting dates are real date fields so
+ * they can be range-queried.
+ */
+export const RECRUIT_INDEX_DEFINITION = {
+    settings: {
+        analysis: {
+            analyzer: {
+                korean: {
+                    type: "custom",
+                    tokenizer: "nori_mixed",
+                    filter: ["nori_readingform", "lowercase"],
+                },
+            },
+            tokenizer: {
+                nori_mixed: {
+                    type: "nori_tokenizer",
+                    decompound_mode: "mixed",
+                },
+            },
+        },
+    },
+    mappings: {
+        dynamic_templates: [
+            {
+                internship_details: {
+                    path_match: "internshipDetails.*",
+                    match_mapping_type: "string",
+                    mapping: {type: "text", analyzer: "korean"},
+                },
+            },
+        ],
+        properties: {
+            id: {type: "long"},
+            organizationName: {
+                type: "text",
+                analyzer: "korean",
+                fields: {keyword: {type: "keyword"}},
+            },
+            organizationType: {type: "keyword"},
+            organizationSize: {type: "keyword"},
+            employeeCount: {type: "integer"},
+            recruitCount: {type: "integer"},
+            applicantCount: {type: "integer"},
+            competitionRate: {type: "float"},
+            isListed: {type: "boolean"},
+            market: {type: "keyword"},
+            qualifications: {
+                properties: {
+                    recruitCount: {type: "integer"},
+                    grade: {type: "integer"},
+                    credit: {
+                        properties: {
+                            minGpa: {type: "float"},
+                            scale: {type: "float"},
+                        },
+                    },
+                    competence: {type: "text", analyzer: "korean"},
+                    etc: {type: "text", analyzer: "korean"},
+                    skills: {type: "keyword"},
+                },
+            },
+            internshipDetails: {
+                properties: {
+                    weeklyPlan: {
+                        properties: {
+                            weeks: {type: "integer"},
+                        },
+                    },
+                    coverage: {type: "float"},
+                },
+            },
+            majors: {type: "keyword"},
+            semester: {type: "keyword"},
+            programType: {type: "keyword"},
+            type: {type: "keyword"},
+            startDate: {type: "date", format: "yyyy-MM-dd"},
+            endDate: {type: "date", format: "yyyy-MM-dd"},
+            applicationDeadline: {type: "date", format: "yyyy-MM-dd"},
+            applicationDeadlineAt: {type: "date"},
+            statusConflict: {type: "keyword"},
+            location: {
+                properties: {
+                    sido: {type: "keyword"},
+                    sigungu: {type: "keyword"},
+                    regionCode: {type: "keyword"},
+                },
+            },
+            workSchedule: {
+                properties: {
+                    days: {type: "keyword"},
+                    flexible: {type: "boolean"},
+                    weeklyHours: {type: "float"},
+                },
+            },
+        },
+    },
+} as const;
+
+let indexReady: Promise<void> | undefined;
+
+/**
+ * Creates the postings index with {@link RECRUIT_INDEX_DEFINITION} if it does not exist yet.
+ *
+ * The check runs once per Lambda container; later calls reuse the result of the first one.
+ *
+ * @param {string} index - The name of the index.
+ */
+export function ensureIndex(index: string): Promise<void> {
+    if (!indexReady) {
+        indexReady = (async () => {
+            if (await getElasticClient().indices.exists({index})) {
+                return;
+            }
+            await getElasticClient().indices.create({index, ...RECRUIT_INDEX_DEFINITION});
+            console.log(`Created Elasticsearch index: ${index}`);
+        })().catch((error) => {
+            indexReady = undefined;
+            throw error;
+        });
+    }
+    return indexReady;
+}
+
+/**
+ * Indexes postings into Elasticsearch with the bulk API.
+ *
+ * The posting id is used as the document `_id`, so reprocessing a file overwrites the existing documents
+ * instead of creating duplicates. If any document is rejected, the errors are logged and an error is thrown
+ * after the remaining chunks have been sent.
+ *
+ * @param {any[]} data - The postings to be indexed.
+ */
 export async function saveToElasticsearch(data: any[]): Promise<void> {
-    for (const item of data) {
-        await esClient.index({
-            index: process.env.ELASTICSEARCH_INDEX!,
-            document: item,
+    const index = getConfig().elasticsearch.index;
+    await ensureIndex(index);
+
+    let failed = 0;
+    for (let i = 0; i < data.length; i += BULK_CHUNK_SIZE) {
+        const chunk = data.slice(i, i + BULK_CHUNK_SIZE);
+        const response = await getElasticClient().bulk({
+            operations: chunk.flatMap((item) => [{index: {_index: index, _id: String(item.id)}}, item]),
         });
+
+        if (response.errors) {
+            for (const entry of response.items) {
+                if (entry.index?.error) {
+                    console.error(`Error indexing document ${entry.index._id}:`, entry.index.error);
+                    failed++;
+                }
+            }
+        }
+    }
+
+    if (failed > 0) {
+        throw new Error(`Failed to index ${failed} of ${data.length} document(s) into ${index}`);
     }
     console.log("Data saved to Elasticsearch.");
 }
@@ -1,10 +1,28 @@
-import {GetObjectCommand, PutObjectCommand, S3Client} from "@aws-sdk/client-s3";
+import {
+    AbortMultipartUploadCommand,
+    CompleteMultipartUploadCommand,
+    CreateMultipartUploadCommand,
+    GetObjectCommand,
+    ListObjectsV2Command,
+    PutObjectCommand,
+    S3Client,
+    UploadPartCommand
+} from "@aws-sdk/client-s3";
 import stream from "stream";
+import {getConfig} from "../config/config";
 
-const s3Client = new S3Client();
+let s3Client: S3Client | undefined;
+
+const MIN_PART_SIZE = 5 * 1024 * 1024;
+
+function getS3Client(): S3Client {
+    const {region, endpoints} = getConfig();
+    s3Client ??= new S3Client({region, endpoint: endpoints.s3, forcePathStyle: !!endpoints.s3});
+    return s3Client;
+}
 
 export async function getS3File(bucketName: string, key: string): Promise<any> {
-    const s3Object = await s3Client.send(
+    const s3Object = await getS3Client().send(
         new GetObjectCommand({Bucket: bucketName, Key: key})
     );
     const rawData = await streamToString(s3Object.Body as stream.Readable);
@@ -12,8 +30,109 @@ export async function getS3File(bucketName: string, key: string): Promise<any> {
     return JSON.parse(rawData);
 }
 
+/**
+ * Opens an S3 object as a stream instead of reading it into memory.
+ *
+ * @param {string} bucketName - The bucket of the object.
+ * @param {string} key - The key of the object.
+ * @returns {Promise<{body: stream.Readable, contentEncoding?: string}>} - The object body and its Content-Encoding.
+ */
+export async function getS3ObjectStream(
+    bucketName: string,
+    key: string,
+): Promise<{ body: stream.Readable; contentEncoding?: string }> {
+    const s3Object = await getS3Client().send(
+        new GetObjectCommand({Bucket: bucketName, Key: key})
+    );
+    return {body: s3Object.Body as stream.Readable, contentEncoding: s3Object.ContentEncoding};
+}
+
+export interface S3TextUpload {
+    write(text: string): Promise<void>;
+
+    close(): Promise<void>;
+
+    abort(): Promise<void>;
+}
+
+/**
+ * Starts an upload that writes an S3 object piece by piece with a multipart upload.
+ *
+ * Text is buffered until a part of at least 5 MiB can be sent, so memory use is bounded by the part size
+ * rather than the size of the object. Objects smaller than one part are written with a single PutObject.
+ *
+ * @param {string} bucketName - The bucket of the object.
+ * @param {string} key - The key of the object.
+ * @param {string} contentType - The Content-Type of the object.
+ * @returns {S3TextUpload} - The upload; `close` completes it and `abort` discards the parts sent so far.
+ */
+export function createS3TextUpload(bucketName: string, key: string, contentType: string): S3TextUpload {
+    let buffered: Buffer[] = [];
+    let bufferedSize = 0;
+    let uploadId: string | undefined;
+    const parts: { ETag: string; PartNumber: number }[] = [];
+
+    async function sendPart() {
+        uploadId ??= (await getS3Client().send(new CreateMultipartUploadCommand({
+            Bucket: bucketName,
+            Key: key,
+            ContentType: contentType,
+        }))).UploadId;
+
+        const PartNumber = parts.length + 1;
+        const {ETag} = await getS3Client().send(new UploadPartCommand({
+            Bucket: bucketName,
+            Key: key,
+            UploadId: uploadId,
+            PartNumber,
+            Body: Buffer.concat(buffered),
+        }));
+        parts.push({ETag, PartNumber});
+        buffered = [];
+        bufferedSize = 0;
+    }
+
+    return {
+        async write(text: string) {
+            const chunk = Buffer.from(text, "utf-8");
+            buffered.push(chunk);
+            bufferedSize += chunk.length;
+            if (bufferedSize >= MIN_PART_SIZE) {
+                await sendPart();
+            }
+        },
+        async close() {
+            if (!uploadId) {
+                await getS3Client().send(new PutObjectCommand({
+                    Bucket: bucketName,
+                    Key: key,
+                    Body: Buffer.concat(buffered),
+                    ContentType: contentType,
+                }));
+            } else {
+                if (bufferedSize > 0) {
+                    await sendPart();
+                }
+                await getS3Client().send(new CompleteMultipartUploadCommand({
+                    Bucket: bucketName,
+                    Key: key,
+                    UploadId: uploadId,
+                    MultipartUpload: {Parts: parts},
+                }));
+            }
+            console.log(`Data saved to S3: Bucket=${bucketName}, Key=${key}`);
+        },
+        async abort() {
+            if (uploadId) {
+                await getS3Client().send(new AbortMultipartUploadCommand({Bucket: bucketName, Key: key, UploadId: uploadId}));
+                uploadId = undefined;
+            }
+        },
+    };
+}
+
 export async function saveToS3(bucketName: string, key: string, data: any): Promise<void> {
-    await s3Client.send(
+    await getS3Client().send(
         new PutObjectCommand({
             Bucket: bucketName,
             Key: key,
@@ -24,6 +143,37 @@ export async function saveToS3(bucketName: string, key: string, data: any): Prom
     console.log(`Data saved to S3: Bucket=${bucketName}, Key=${key}`);
 }
 
+export interface S3ObjectSummary {
+    key: string;
+    lastModified: Date;
+}
+
+/**
+ * Lists every object under a prefix, following continuation tokens.
+ *
+ * @param {string} bucketName - The bucket to list.
+ * @param {string} prefix - The key prefix, or an empty string for the whole bucket.
+ * @returns {Promise<S3ObjectSummary[]>} - The keys and last modification times of the objects.
+ */
+export async function listS3Objects(bucketName: string, prefix: string = ""): Promise<S3ObjectSummary[]> {
+    const objects: S3ObjectSummary[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+        const response = await getS3Client().send(new ListObjectsV2Command({
+            Bucket: bucketName,
+            Prefix: prefix || undefined,
+            ContinuationToken: continuationToken,
+        }));
+        for (const object of response.Contents ?? []) {
+            objects.push({key: object.Key, lastModified: object.LastModified});
+        }
+        continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return objects;
+}
+
 async function streamToString(readableStream: stream.Readable): Promise<string> {
     const chunks: Buffer[] = [];
     for await (const chunk of readableStream) {
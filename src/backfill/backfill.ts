@@ -0,0 +1,287 @@
+import {getS3File, listS3Objects, S3ObjectSummary, saveToS3} from "../aws/s3";
+import {getStoredPostings} from "../aws/dynamo";
+import {getConfig} from "../config/config";
+import {BACKFILL_PREFIX, RAW_FILE_PATTERN} from "../constants";
+import {deliverRawObject, isEtlOutputKey, readRawBatches, TransformedBatch} from "../lambda";
+import {diffPostings} from "../posting/diff";
+import {initOrganizationRules} from "../rules/rules";
+import {readAhead} from "../util/stream";
+
+export type BackfillMode = "write" | "dry-run" | "diff-only";
+
+export const BACKFILL_MODES: BackfillMode[] = ["write", "dry-run", "diff-only"];
+
+/**
+ * Options of a backfill run.
+ *
+ * `from` and `to` are inclusive YYYY-MM-DD dates compared with the UTC date on which each raw object was
+ * last modified. `checkpoint` names the checkpoint object under the `backfill/` prefix; a run started
+ * again with the same name skips the objects the previous run completed.
+ */
+export interface BackfillOptions {
+    bucket: string;
+    prefix?: string;
+    from?: string;
+    to?: string;
+    mode: BackfillMode;
+    concurrency: number;
+    checkpoint?: string;
+}
+
+export interface DiffSummary {
+    added: number;
+    changed: number;
+    unchanged: number;
+    fields: Record<string, number>;
+}
+
+export interface BackfillObjectResult {
+    key: string;
+    total: number;
+    valid: number;
+    quarantined: number;
+    failed: number;
+    diff?: DiffSummary;
+}
+
+export interface BackfillResult {
+    mode: BackfillMode;
+    skipped: number;
+    objects: BackfillObjectResult[];
+}
+
+interface BackfillCheckpoint {
+    prefix: string;
+    from?: string;
+    to?: string;
+    mode: BackfillMode;
+    completed: string[];
+    updatedAt?: string;
+}
+
+/**
+ * Fields written by the sinks rather than `transformData`, left out of the diff-only comparison.
+ */
+const STORED_ONLY_FIELDS = ["contentHash", "firstSeenAt", "lastSeenAt", "version", "applicantHistory", "removedAt", "removedReason"];
+
+/**
+ * Transformed batches kept ready per object read ahead; the rest of the object waits in S3.
+ */
+const READ_AHEAD_BATCHES = 1;
+
+/**
+ * Reprocesses historical raw crawls in S3.
+ *
+ * The raw objects under `prefix` (and within the date range, if given) are processed oldest first, so later
+ * crawls win just as they did when they were first processed. Each object is read and transformed like in
+ * the S3-triggered handler. What happens next depends on the mode:
+ * - `write`: the postings are written with the configured sinks, using the object's modification time as
+ *   the time the postings were seen. Postings already seen by a newer crawl are left as they are, and a
+ *   crawl older than the table marks no posting removed.
+ * - `dry-run`: nothing is written; only the transformation and validation counts are returned.
+ * - `diff-only`: nothing is written; the postings are compared with the ones stored in DynamoDB.
+ *
+ * Up to `concurrency` objects are read and transformed at once, but they are applied one object at a time
+ * in chronological order. Each object is streamed, with only a batch read ahead of the sinks, so memory use
+ * does not depend on the size of the objects. The listing and the checkpoint are read together, and with a
+ * checkpoint, the progress of an object is saved while the next one is processed.
+ *
+ * @param {BackfillOptions} options - The objects to reprocess and how.
+ * @returns {Promise<BackfillResult>} - A summary of every object processed by this run.
+ */
+export async function runBackfill(options: BackfillOptions): Promise<BackfillResult> {
+    const config = getConfig();
+    await initOrganizationRules();
+
+    const [listed, checkpoint] = await Promise.all([listS3Objects(options.bucket, options.prefix), loadCheckpoint(options)]);
+    const objects = selectBackfillObjects(listed, options);
+    const completed = new Set(checkpoint.completed);
+    const pending = objects.filter((object) => !completed.has(object.key));
+    const result: BackfillResult = {mode: options.mode, skipped: objects.length - pending.length, objects: []};
+
+    console.log(`Backfill (${options.mode}): ${pending.length} object(s) to process, ${result.skipped} already completed`);
+
+    let saving: Promise<void> = Promise.resolve();
+    await processInOrder(
+        pending,
+        options.concurrency,
+        (object) => {
+            const crawledAt = object.lastModified.toISOString();
+            const objectResult: BackfillObjectResult = {key: object.key, total: 0, valid: 0, quarantined: 0, failed: 0};
+            const batches = countBatches(readRawBatches(options.bucket, object.key, crawledAt), objectResult);
+            return {crawledAt, objectResult, batches: readAhead(batches, READ_AHEAD_BATCHES)};
+        },
+        async (object, {crawledAt, objectResult, batches}) => {
+            if (options.mode === "write") {
+                await deliverRawObject(options.bucket, object.key, batches, config.sinks, crawledAt);
+            } else if (options.mode === "diff-only") {
+                objectResult.diff = await diffWithStored(batches);
+            } else {
+                for await (const _ of batches) {
+                    // Reading is all a dry run does; the counts are collected as the batches pass.
+                }
+            }
+
+            result.objects.push(objectResult);
+            if (options.checkpoint) {
+                await saving;
+                checkpoint.completed.push(object.key);
+                saving = saveCheckpoint(options, checkpoint);
+                // A failed save is reported by the next await; this only avoids an unhandled rejection meanwhile.
+                saving.catch(() => undefined);
+            }
+        },
+    );
+    await saving;
+
+    return result;
+}
+
+/**
+ * Picks the raw crawl objects of a backfill and sorts them oldest first.
+ *
+ * ETL output (reports, quarantine, processed copies and checkpoints) and objects that are not raw crawl
+ * files (.json, .ndjson, optionally gzipped) are left out.
+ *
+ * @param {S3ObjectSummary[]} objects - The listed objects.
+ * @param {Pick<BackfillOptions, "from" | "to">} range - The inclusive date range, if any.
+ * @returns {S3ObjectSummary[]} - The raw objects in chronological order, ties broken by key.
+ */
+export function selectBackfillObjects(
+    objects: S3ObjectSummary[],
+    range: Pick<BackfillOptions, "from" | "to">,
+): S3ObjectSummary[] {
+    return objects
+        .filter((object) => RAW_FILE_PATTERN.test(object.key) && !isEtlOutputKey(object.key))
+        .filter((object) => {
+            const date = object.lastModified.toISOString().slice(0, 10);
+            return (!range.from || date >= range.from) && (!range.to || date <= range.to);
+        })
+        .sort((a, b) => a.lastModified.getTime() - b.lastModified.getTime() || a.key.localeCompare(b.key));
+}
+
+/**
+ * Starts items with limited concurrency while consuming them strictly in order.
+ *
+ * Up to `concurrency` items are in flight, counting the one being consumed: the next item is started when
+ * one has been consumed, and it is only consumed once every item before it has been, so side effects
+ * happen in the order of `items`.
+ *
+ * @param {T[]} items - The items to process.
+ * @param {number} concurrency - The maximum number of items in flight at once.
+ * @param {(item: T) => R} start - Starts an item, e.g., by reading it ahead.
+ * @param {(item: T, started: R) => Promise<void>} consume - Consumes a started item.
+ */
+export async function processInOrder<T, R>(
+    items: T[],
+    concurrency: number,
+    start: (item: T) => R,
+    consume: (item: T, started: R) => Promise<void>,
+): Promise<void> {
+    const started: R[] = [];
+    let next = 0;
+
+    for (const item of items) {
+        while (next < items.length && started.length < Math.max(1, concurrency)) {
+            started.push(start(items[next++]));
+        }
+        await consume(item, started.shift());
+    }
+}
+
+async function* countBatches(
+    batches: AsyncIterable<TransformedBatch>,
+    result: BackfillObjectResult,
+): AsyncGenerator<TransformedBatch> {
+    for await (const batch of batches) {
+        result.total += batch.total;
+        result.valid += batch.valid.length;
+        result.quarantined += batch.quarantined.length;
+        result.failed += batch.failures.length;
+        yield batch;
+    }
+}
+
+async function diffWithStored(batches: AsyncIterable<TransformedBatch>): Promise<DiffSummary> {
+    const summary: DiffSummary = {added: 0, changed: 0, unchanged: 0, fields: {}};
+
+    for await (const {valid} of batches) {
+        const stored = await getStoredPostings(valid.map((posting) => posting.id));
+        for (const posting of valid) {
+            const previous = stored.get(posting.id);
+            if (!previous) {
+                summary.added++;
+                continue;
+            }
+
+            const changes = diffPostings(previous, posting, STORED_ONLY_FIELDS);
+            if (changes.length === 0) {
+                summary.unchanged++;
+                continue;
+            }
+            summary.changed++;
+            for (const {field} of changes) {
+                summary.fields[field] = (summary.fields[field] ?? 0) + 1;
+            }
+        }
+    }
+
+    return summary;
+}
+
+async function loadCheckpoint(options: BackfillOptions): Promise<BackfillCheckpoint> {
+    const fresh: BackfillCheckpoint = {
+        prefix: options.prefix ?? "",
+        from: options.from,
+        to: options.to,
+        mode: options.mode,
+        completed: [],
+    };
+    if (!options.checkpoint) {
+        return fresh;
+    }
+
+    let saved: BackfillCheckpoint;
+    try {
+        saved = await getS3File(options.bucket, checkpointKey(options.checkpoint));
+    } catch (error) {
+        if (error.name === "NoSuchKey") {
+            return fresh;
+        }
+        throw error;
+    }
+
+    if (saved.prefix !== fresh.prefix || saved.from !== fresh.from || saved.to !== fresh.to || saved.mode !== fresh.mode) {
+        throw new Error(`Checkpoint ${options.checkpoint} belongs to a backfill with different options; use another name`);
+    }
+    return saved;
+}
+
+async function saveCheckpoint(options: BackfillOptions, checkpoint: BackfillCheckpoint): Promise<void> {
+    checkpoint.updatedAt = new Date().toISOString();
+    await saveToS3(options.bucket, checkpointKey(options.checkpoint), checkpoint);
+}
+
+function checkpointKey(name: string): string {
+    return `${BACKFILL_PREFIX}${name}.json`;
+}
+
+/**
+ * Lambda entry point of the backfill, invoked manually with {@link BackfillOptions} as the event.
+ *
+ * The mode defaults to `dry-run` and the concurrency to 1. A run that times out can be resumed by
+ * invoking the function again with the same checkpoint name.
+ *
+ * @param {Partial<BackfillOptions>} event - The backfill options.
+ * @returns {Promise<BackfillResult>} - A summary of every object processed by this run.
+ */
+export async function handler(event: Partial<BackfillOptions>): Promise<BackfillResult> {
+    const mode = event.mode ?? "dry-run";
+    if (!event.bucket) {
+        throw new Error("bucket is required");
+    }
+    if (!BACKFILL_MODES.includes(mode)) {
+        throw new Error(`mode must be one of ${BACKFILL_MODES.join(", ")}`);
+    }
+    return runBackfill({...event, bucket: event.bucket, mode, concurrency: event.concurrency ?? 1});
+}
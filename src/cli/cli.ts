@@ -0,0 +1,248 @@
+#!/usr/bin/env node
+import * as fs from "node:fs";
+import * as path from "node:path";
+import {parseArgs} from "node:util";
+import {transformRecords} from "../lambda";
+import {diffPostings} from "../posting/diff";
+import {RecruitPosting} from "../posting/posting";
+import {runBackfill} from "../backfill/backfill";
+import {RAW_FILE_PATTERN} from "../constants";
+import {isIsoDate} from "../util/date";
+import {isGzipped, readJsonRecords} from "../util/stream";
+import {formatPostings, OUTPUT_FORMATS, OutputFormat} from "./format";
+
+const USAGE = `Usage: hywep-etl transform <raw crawl file|dir> [options]
+       hywep-etl backfill --bucket <name> [options]
+
+transform: runs the ETL transformation locally, without AWS. Raw crawls may be JSON arrays or NDJSON,
+optionally gzipped (.json, .ndjson, .json.gz, .ndjson.gz), like in the raw crawl bucket.
+
+  --out <file>        Write the transformed postings to a file instead of stdout
+  --format <format>   Output format: ${OUTPUT_FORMATS.join(", ")} (default: json)
+  --id <n>            Transform only the posting with this id
+  --diff <file>       Show field-level changes against a previously processed JSON file
+
+backfill: reprocesses raw crawls stored in S3 with the sinks of the configured stage.
+
+  --bucket <name>     The raw crawl bucket
+  --prefix <prefix>   Only reprocess objects under this prefix
+  --from <date>       Only reprocess objects modified on or after this date (YYYY-MM-DD)
+  --to <date>         Only reprocess objects modified on or before this date (YYYY-MM-DD)
+  --dry-run           Transform and validate without writing anything
+  --diff-only         Compare with the postings stored in DynamoDB without writing anything
+  --concurrency <n>   Number of objects read at once, applied in order (default: 1)
+  --checkpoint <name> Save progress under backfill/<name>.json and resume from it
+
+  -h, --help          Show this message
+`;
+
+/**
+ * Runs the command line interface.
+ *
+ * The `transform` command reads a raw crawl file (or every raw crawl file in a directory),
+ * runs each posting through `transformData` and writes the result. With `--diff`, a field-level report
+ * against a previously processed file is printed, and the postings are only written when `--out` is given.
+ * Postings that fail to transform are reported on stderr and make the command exit with 1.
+ *
+ * The `backfill` command runs {@link runBackfill} and prints its summary as JSON.
+ *
+ * @param {string[]} argv - The command line arguments, without the node executable and script path.
+ * @returns {Promise<number>} - The process exit code.
+ */
+export async function run(argv: string[]): Promise<number> {
+    let parsed: ReturnType<typeof parseCliArgs>;
+    try {
+        parsed = parseCliArgs(argv);
+    } catch (error) {
+        process.stderr.write(`${error.message}\n\n${USAGE}`);
+        return 2;
+    }
+
+    const {positionals, values} = parsed;
+    if (values.help) {
+        process.stdout.write(USAGE);
+        return 0;
+    }
+
+    const [command, input] = positionals;
+    const format = (values.format ?? "json") as OutputFormat;
+
+    if (command === "backfill") {
+        return backfill(values);
+    }
+
+    if (command !== "transform" || !input) {
+        process.stderr.write(USAGE);
+        return 2;
+    }
+    if (!OUTPUT_FORMATS.includes(format)) {
+        process.stderr.write(`Unknown format: ${format}\n\n${USAGE}`);
+        return 2;
+    }
+
+    let rawPostings = await readRawPostings(input);
+    if (values.id !== undefined) {
+        rawPostings = rawPostings.filter((posting) => Number(posting.id) === Number(values.id));
+        if (rawPostings.length === 0) {
+            process.stderr.write(`No posting with id ${values.id} in ${input}\n`);
+            return 1;
+        }
+    }
+
+    const {postings: transformedData, failures} = transformRecords(rawPostings);
+    for (const failure of failures) {
+        process.stderr.write(`Failed to transform posting ${failure.id ?? "(no id)"}: ${failure.error}\n`);
+    }
+    const output = formatPostings(transformedData, format);
+
+    if (values.out) {
+        fs.writeFileSync(values.out, output, {encoding: "utf-8"});
+        process.stderr.write(`Wrote ${transformedData.length} posting(s) to ${values.out}\n`);
+    }
+
+    if (values.diff) {
+        let previous: RecruitPosting[] = JSON.parse(fs.readFileSync(values.diff, "utf-8"));
+        if (values.id !== undefined) {
+            previous = previous.filter((posting) => Number(posting.id) === Number(values.id));
+        }
+        process.stdout.write(formatDiffReport(previous, transformedData));
+    } else if (!values.out) {
+        process.stdout.write(output);
+    }
+
+    return failures.length > 0 ? 1 : 0;
+}
+
+function parseCliArgs(argv: string[]) {
+    return parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            out: {type: "string"},
+            format: {type: "string"},
+            id: {type: "string"},
+            diff: {type: "string"},
+            bucket: {type: "string"},
+            prefix: {type: "string"},
+            from: {type: "string"},
+            to: {type: "string"},
+            "dry-run": {type: "boolean"},
+            "diff-only": {type: "boolean"},
+            concurrency: {type: "string"},
+            checkpoint: {type: "string"},
+            help: {type: "boolean", short: "h"},
+        },
+    });
+}
+
+async function backfill(values: ReturnType<typeof parseCliArgs>["values"]): Promise<number> {
+    const concurrency = Number(values.concurrency ?? 1);
+    const invalidDate = [values.from, values.to].find((date) => date !== undefined && !isIsoDate(date));
+
+    if (!values.bucket || (values["dry-run"] && values["diff-only"])) {
+        process.stderr.write(USAGE);
+        return 2;
+    }
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+        process.stderr.write(`--concurrency must be a positive integer\n`);
+        return 2;
+    }
+    if (invalidDate !== undefined) {
+        process.stderr.write(`Invalid date: ${invalidDate}, expected YYYY-MM-DD\n`);
+        return 2;
+    }
+
+    const result = await runBackfill({
+        bucket: values.bucket,
+        prefix: values.prefix,
+        from: values.from,
+        to: values.to,
+        mode: values["dry-run"] ? "dry-run" : values["diff-only"] ? "diff-only" : "write",
+        concurrency,
+        checkpoint: values.checkpoint,
+    });
+    process.stdout.write(JSON.stringify(result, null, 2) + "\n");
+    return 0;
+}
+
+/**
+ * Reads raw postings from a crawl file or from every raw crawl file in a directory.
+ *
+ * Files are parsed like the raw objects in S3: JSON arrays or NDJSON, gunzipped when their name ends
+ * with .gz. Files in a directory are read in name order, so timestamped crawl snapshots are processed
+ * chronologically.
+ *
+ * @param {string} input - The path of a raw crawl file or a directory of raw crawl files.
+ * @returns {Promise<Record<string, any>[]>} - The raw postings of all files.
+ */
+export async function readRawPostings(input: string): Promise<Record<string, any>[]> {
+    const files = fs.statSync(input).isDirectory()
+        ? fs.readdirSync(input).filter((name) => RAW_FILE_PATTERN.test(name)).sort().map((name) => path.join(input, name))
+        : [input];
+
+    const postings: Record<string, any>[] = [];
+    for (const file of files) {
+        for await (const record of readJsonRecords(fs.createReadStream(file), {gzip: isGzipped(file)})) {
+            postings.push(record);
+        }
+    }
+    return postings;
+}
+
+/**
+ * Builds a human-readable report of the changes between two sets of processed postings.
+ *
+ * Postings are matched by id. Every changed field is listed with its previous and current value,
+ * followed by a summary line.
+ *
+ * @param {RecruitPosting[]} previous - The previously processed postings.
+ * @param {RecruitPosting[]} current - The newly transformed postings.
+ * @returns {string} - The report text.
+ */
+export function formatDiffReport(previous: RecruitPosting[], current: RecruitPosting[]): string {
+    const previousById = new Map(previous.map((posting) => [Number(posting.id), posting]));
+    const currentIds = new Set(current.map((posting) => Number(posting.id)));
+    const lines: string[] = [];
+    const counts = {added: 0, changed: 0, removed: 0, unchanged: 0};
+
+    for (const posting of current) {
+        const before = previousById.get(Number(posting.id));
+        if (!before) {
+            lines.push(`+ ${posting.id} (new)`);
+            counts.added++;
+            continue;
+        }
+
+        const changes = diffPostings(before, posting);
+        if (changes.length === 0) {
+            counts.unchanged++;
+            continue;
+        }
+
+        counts.changed++;
+        lines.push(`~ ${posting.id}`);
+        for (const {field, previous: oldValue, current: newValue} of changes) {
+            lines.push(`    ${field}: ${JSON.stringify(oldValue)} -> ${JSON.stringify(newValue)}`);
+        }
+    }
+
+    for (const id of previousById.keys()) {
+        if (!currentIds.has(id)) {
+            lines.push(`- ${id} (removed)`);
+            counts.removed++;
+        }
+    }
+
+    lines.push(`${counts.added} added, ${counts.changed} changed, ${counts.removed} removed, ${counts.unchanged} unchanged`);
+    return lines.join("\n") + "\n";
+}
+
+if (require.main === module) {
+    run(process.argv.slice(2)).then(
+        (code) => (process.exitCode = code),
+        (error) => {
+            console.error(error);
+            process.exitCode = 1;
+        },
+    );
+}
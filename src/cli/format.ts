@@ -0,0 +1,70 @@
+export type OutputFormat = "json" | "ndjson" | "csv";
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["json", "ndjson", "csv"];
+
+/**
+ * Serializes transformed postings in the requested output format.
+ *
+ * @param {Record<string, any>[]} postings - The postings to be serialized.
+ * @param {OutputFormat} format - The output format.
+ * @returns {string} - The serialized postings.
+ */
+export function formatPostings(postings: Record<string, any>[], format: OutputFormat): string {
+    switch (format) {
+        case "json":
+            return JSON.stringify(postings, null, 2) + "\n";
+        case "ndjson":
+            return postings.map((posting) => JSON.stringify(posting)).join("\n") + "\n";
+        case "csv":
+            return toCsv(postings);
+    }
+}
+
+/**
+ * Converts postings into CSV.
+ *
+ * Nested objects are flattened into dotted column names (e.g., "organizationSupportAmount.amount").
+ * Arrays of primitive values are joined with "; ", other arrays are written as JSON. The header is the
+ * union of all columns, in order of first appearance.
+ *
+ * @param {Record<string, any>[]} postings - The postings to be converted.
+ * @returns {string} - The CSV text, including a header row.
+ */
+export function toCsv(postings: Record<string, any>[]): string {
+    const rows = postings.map((posting) => flatten(posting));
+    const columns: string[] = [];
+    for (const row of rows) {
+        for (const column of Object.keys(row)) {
+            if (!columns.includes(column)) columns.push(column);
+        }
+    }
+
+    const lines = [columns.map(escapeCsv).join(",")];
+    for (const row of rows) {
+        lines.push(columns.map((column) => escapeCsv(row[column] ?? "")).join(","));
+    }
+    return lines.join("\n") + "\n";
+}
+
+function flatten(value: Record<string, any>, prefix = "", result: Record<string, string> = {}): Record<string, string> {
+    for (const [key, item] of Object.entries(value)) {
+        const column = prefix ? `${prefix}.${key}` : key;
+
+        if (item === null || item === undefined) {
+            result[column] = "";
+        } else if (Array.isArray(item)) {
+            result[column] = item.every((element) => typeof element !== "object")
+                ? item.join("; ")
+                : JSON.stringify(item);
+        } else if (typeof item === "object") {
+            flatten(item, column, result);
+        } else {
+            result[column] = String(item);
+        }
+    }
+    return result;
+}
+
+function escapeCsv(value: string): string {
+    return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -0,0 +1,176 @@
+export type Stage = "dev" | "qa" | "prod";
+
+export const STAGES: Stage[] = ["dev", "qa", "prod"];
+
+/**
+ * What differs between stages: the sinks enabled when `SINKS` is not set, and whether the settings meant
+ * for local development (the local sink and endpoint overrides) are accepted. The deployed functions do
+ * not set `SINKS`, so these are the sinks each stage runs.
+ */
+const STAGE_SETTINGS: Record<Stage, { sinks: string; allowLocal: boolean }> = {
+    dev: {sinks: "dynamodb", allowLocal: true},
+    qa: {sinks: "dynamodb,organizations", allowLocal: false},
+    prod: {sinks: "dynamodb,organizations", allowLocal: false},
+};
+
+export interface Config {
+    stage: Stage;
+    region: string;
+    sinks: string[];
+    recruitTable?: string;
+    organizationTable?: string;
+    historyTable?: string;
+    processedBucket?: string;
+    localSinkDir: string;
+    maxFailureRatio: number;
+    batchSize: number;
+    organizationRules?: {
+        bucket: string;
+        key: string;
+    };
+    elasticsearch: {
+        endpoint?: string;
+        index?: string;
+    };
+    endpoints: {
+        dynamodb?: string;
+        s3?: string;
+    };
+}
+
+let cachedConfig: Config | undefined;
+
+/**
+ * Loads and validates the configuration from environment variables.
+ *
+ * Every problem is collected before failing, so a misconfigured stage is reported in one message instead
+ * of one missing variable at a time. Settings that only a particular sink needs (e.g., `RECRUIT_TABLE`
+ * for DynamoDB) are required only when that sink is enabled.
+ *
+ * Supported variables:
+ * - `STAGE`: one of dev, qa or prod. qa and prod reject the local sink and the endpoint overrides.
+ * - `AWS_REGION`: the region of the AWS clients (set by the Lambda runtime).
+ * - `SINKS`: comma-separated sink names (default "dynamodb" in dev, "dynamodb,organizations" in qa and prod).
+ * - `RECRUIT_TABLE`: the DynamoDB table of postings.
+ * - `ORGANIZATION_TABLE`: the DynamoDB table of organizations, written by the organizations sink.
+ * - `HISTORY_TABLE`: the DynamoDB table of posting versions; the dynamodb sink records no history without it.
+ * - `ELASTICSEARCH_ENDPOINT`, `ELASTICSEARCH_INDEX`: the Elasticsearch cluster and index.
+ * - `PROCESSED_BUCKET`: the bucket of the S3 sink (default: the bucket of the raw file).
+ * - `LOCAL_SINK_DIR`: the directory of the local sink (default "processed").
+ * - `MAX_FAILURE_RATIO`: the share of postings of an object that may fail to transform before the
+ *   run fails, between 0 and 1 (default 0.1).
+ * - `BATCH_SIZE`: the number of raw postings transformed and written to the sinks at once (default 200).
+ * - `ORGANIZATION_RULES_URI`: an s3://bucket/key object replacing the bundled organization rules. The
+ *   deployed functions may only read the raw crawl bucket of their stage, so the object must be stored there.
+ * - `DYNAMODB_ENDPOINT`, `S3_ENDPOINT`: endpoint overrides for LocalStack or DynamoDB Local.
+ *
+ * @param {NodeJS.ProcessEnv} env - The environment to read, defaults to `process.env`.
+ * @returns {Config} - The validated configuration.
+ * @throws {Error} - Throws an error listing every invalid or missing setting.
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): Config {
+    const errors: string[] = [];
+    const optional = (name: string) => env[name]?.trim() || undefined;
+
+    const stage = optional("STAGE") as Stage;
+    if (!STAGES.includes(stage)) {
+        errors.push(`STAGE must be one of ${STAGES.join(", ")} (got ${JSON.stringify(env.STAGE ?? null)})`);
+    }
+
+    const region = optional("AWS_REGION");
+    if (!region) {
+        errors.push("AWS_REGION is required");
+    }
+
+    const maxFailureRatio = Number(optional("MAX_FAILURE_RATIO") ?? 0.1);
+    if (Number.isNaN(maxFailureRatio) || maxFailureRatio < 0 || maxFailureRatio > 1) {
+        errors.push(`MAX_FAILURE_RATIO must be a number between 0 and 1 (got ${JSON.stringify(env.MAX_FAILURE_RATIO)})`);
+    }
+
+    const batchSize = Number(optional("BATCH_SIZE") ?? 200);
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+        errors.push(`BATCH_SIZE must be a positive integer (got ${JSON.stringify(env.BATCH_SIZE)})`);
+    }
+
+    const rulesUri = optional("ORGANIZATION_RULES_URI");
+    const rulesMatch = rulesUri?.match(/^s3:\/\/([^/]+)\/(.+)$/);
+    if (rulesUri && !rulesMatch) {
+        errors.push(`ORGANIZATION_RULES_URI must be an s3://bucket/key URI (got ${JSON.stringify(rulesUri)})`);
+    }
+
+    const stageSettings = STAGE_SETTINGS[stage] ?? STAGE_SETTINGS.dev;
+    const sinks = (optional("SINKS") ?? stageSettings.sinks).split(",").map((name) => name.trim()).filter(Boolean);
+    const config: Config = {
+        stage,
+        region,
+        sinks,
+        recruitTable: optional("RECRUIT_TABLE"),
+        organizationTable: optional("ORGANIZATION_TABLE"),
+        historyTable: optional("HISTORY_TABLE"),
+        processedBucket: optional("PROCESSED_BUCKET"),
+        localSinkDir: optional("LOCAL_SINK_DIR") ?? "processed",
+        maxFailureRatio,
+        batchSize,
+        organizationRules: rulesMatch ? {bucket: rulesMatch[1], key: rulesMatch[2]} : undefined,
+        elasticsearch: {
+            endpoint: optional("ELASTICSEARCH_ENDPOINT"),
+            index: optional("ELASTICSEARCH_INDEX"),
+        },
+        endpoints: {
+            dynamodb: optional("DYNAMODB_ENDPOINT"),
+            s3: optional("S3_ENDPOINT"),
+        },
+    };
+
+    if (sinks.includes("dynamodb") && !config.recruitTable) {
+        errors.push("RECRUIT_TABLE is required when the dynamodb sink is enabled");
+    }
+    if (sinks.includes("organizations") && !config.organizationTable) {
+        errors.push("ORGANIZATION_TABLE is required when the organizations sink is enabled");
+    }
+    if (sinks.includes("elasticsearch")) {
+        if (!config.elasticsearch.endpoint) {
+            errors.push("ELASTICSEARCH_ENDPOINT is required when the elasticsearch sink is enabled");
+        }
+        if (!config.elasticsearch.index) {
+            errors.push("ELASTICSEARCH_INDEX is required when the elasticsearch sink is enabled");
+        }
+    }
+    for (const name of ["ELASTICSEARCH_ENDPOINT", "DYNAMODB_ENDPOINT", "S3_ENDPOINT"]) {
+        if (optional(name) && !/^https?:\/\/\S+$/.test(optional(name))) {
+            errors.push(`${name} must be an http(s) URL (got ${JSON.stringify(env[name])})`);
+        }
+    }
+    if (!stageSettings.allowLocal) {
+        if (sinks.includes("local")) {
+            errors.push(`the local sink cannot be enabled in ${stage}`);
+        }
+        for (const name of ["DYNAMODB_ENDPOINT", "S3_ENDPOINT"]) {
+            if (optional(name)) {
+                errors.push(`${name} cannot be overridden in ${stage}`);
+            }
+        }
+    }
+
+    if (errors.length > 0) {
+        throw new Error(`Invalid configuration:\n - ${errors.join("\n - ")}`);
+    }
+    return config;
+}
+
+/**
+ * Returns the configuration, loading and validating it on first use.
+ *
+ * @returns {Config} - The validated configuration.
+ */
+export function getConfig(): Config {
+    cachedConfig ??= loadConfig();
+    return cachedConfig;
+}
+
+/**
+ * Clears the cached configuration so the next call to {@link getConfig} reads the environment again.
+ */
+export function resetConfig(): void {
+    cachedConfig = undefined;
+}
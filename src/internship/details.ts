@@ -0,0 +1,154 @@
+/**
+ * A step of the weekly plan of an internship. `weeks` is inclusive; a plan stated in months counts four
+ * weeks per month ("2개월 차" is weeks 5 to 8).
+ */
+export interface WeeklyPlanItem {
+    weeks: [number, number];
+    activity: string;
+}
+
+/**
+ * The "실습내용" of a posting, split into its sections.
+ *
+ * Sections with a known header are stored under their field; any other section is kept in `other` under
+ * its header as written, and text before the first header in `preamble`. `coverage` is the share of the
+ * source text, ignoring whitespace, that ended up in a known section (0 to 1).
+ */
+export interface InternshipDetails {
+    jobTitle?: string;
+    goals?: string;
+    jobOverview?: string;
+    operationGuidance?: string;
+    targetOutcomes?: string;
+    weeklyPlan?: WeeklyPlanItem[];
+    preamble?: string;
+    other?: Record<string, string>;
+    coverage: number;
+}
+
+type SectionField = "jobTitle" | "goals" | "jobOverview" | "operationGuidance" | "targetOutcomes";
+
+const SECTION_HEADERS: Record<SectionField, string[]> = {
+    jobTitle: ["직무명", "직무"],
+    goals: ["교육목표", "실습목표"],
+    jobOverview: ["직무개요", "직무내용", "업무개요", "업무내용", "실습내용"],
+    operationGuidance: ["운영지도계획", "운영및지도계획", "운영계획", "지도계획", "실습계획"],
+    targetOutcomes: ["목표성과물", "성과물", "기대성과"],
+};
+
+const HEADER_PATTERN = /^\s*\*\s*([^:*\n]{1,30}?)\s*:\s?(.*)$/;
+const WEEK_UNIT = String.raw`(주\s*차|주|개월\s*차|달\s*차)`;
+const WEEK_PATTERN = new RegExp(
+    String.raw`^[(\[]?\s*(\d{1,2})\s*${WEEK_UNIT}?(?:\s*[~∼\-–,/]\s*(\d{1,2})\s*${WEEK_UNIT})?\s*[)\]]?\s*~?\s*[:.)\]\-–]?\s*(.*)$`
+);
+const BULLET_PATTERN = /^(?:[-*•·ㅇㅁ○●▶￭@＠']|\d{1,2}\s*[.)](?!\d))+\s*/;
+
+/**
+ * Parses the internship details of a posting into its sections.
+ *
+ * A section starts at a line such as "*직무명 : ..." and runs until the next one. Headers are compared
+ * without spaces and punctuation, so "*직무 개요", "*직무개요" and "*운영/ 지도 계획" are all
+ * recognized. A line that looks like a header but is a step of a plan ("*1주차 : ...") stays in its
+ * section. The operation plan is also parsed into `weeklyPlan` with `parseWeeklyPlan`.
+ *
+ * @param {string} details - The input string containing internship details to be parsed.
+ * @returns {InternshipDetails} - The sections of the details and how much of the text they cover.
+ */
+export function parseInternshipDetails(details: string): InternshipDetails {
+    const result: InternshipDetails = {coverage: 0};
+    const sections: { header: string | null; field?: SectionField; lines: string[] }[] = [{header: null, lines: []}];
+
+    for (const line of details.split("\n")) {
+        const header = line.match(HEADER_PATTERN);
+        if (header && (findSectionField(header[1]) || !matchWeeks(header[1].trim()))) {
+            sections.push({header: header[1].trim(), field: findSectionField(header[1]), lines: [header[2]]});
+        } else {
+            sections[sections.length - 1].lines.push(line);
+        }
+    }
+
+    let covered = 0;
+    let total = 0;
+    for (const {header, field, lines} of sections) {
+        const text = lines.join("\n").trim();
+        const characters = countCharacters(header ?? "") + countCharacters(text);
+        total += characters;
+        if (field) {
+            result[field] = result[field] ? `${result[field]}\n${text}` : text;
+            covered += characters;
+        } else if (header) {
+            result.other ??= {};
+            result.other[header] = result.other[header] ? `${result.other[header]}\n${text}` : text;
+        } else if (text) {
+            result.preamble = text;
+        }
+    }
+
+    if (result.operationGuidance) {
+        const weeklyPlan = parseWeeklyPlan(result.operationGuidance);
+        if (weeklyPlan.length > 0) result.weeklyPlan = weeklyPlan;
+    }
+    result.coverage = total === 0 ? 0 : Math.round(covered / total * 100) / 100;
+    return result;
+}
+
+/**
+ * Parses a week-by-week plan (e.g., "- 1주차 : 오리엔테이션\n- 2~4주차 : 설계") into its steps.
+ *
+ * A step starts at a line that begins, after an optional bullet, with a week ("1주차", "1 주차"), a
+ * range ("2~4주차", "1-4주차", "1주차 ~ 2주차", "1,2주차", "[3~4주차]") or a month ("1개월 차", "2달차"). A following
+ * line without a bullet continues the step; a step with nothing after its week ("1주차" on its own
+ * line) takes every line up to the next blank line, bulleted or not. Any other line ends the step. Steps whose range is reversed or
+ * beyond a year are skipped.
+ *
+ * @param {string} plan - The input string holding the plan.
+ * @returns {WeeklyPlanItem[]} - The steps of the plan, in the order written.
+ */
+export function parseWeeklyPlan(plan: string): WeeklyPlanItem[] {
+    const items: WeeklyPlanItem[] = [];
+    let current: WeeklyPlanItem | null = null;
+    let open = false;
+
+    for (const rawLine of plan.split("\n")) {
+        const line = rawLine.trim();
+        const bulleted = BULLET_PATTERN.test(line);
+        const step = matchWeeks(line.replace(BULLET_PATTERN, ""));
+
+        if (step) {
+            const [from, to] = step.weeks;
+            current = from >= 1 && from <= to && to <= 53 ? step : null;
+            open = current?.activity === "";
+            if (current) items.push(current);
+        } else if (current && line && open) {
+            current.activity = [current.activity, line.replace(BULLET_PATTERN, "")].filter(Boolean).join("\n");
+        } else if (current && line && !bulleted) {
+            current.activity = `${current.activity} ${line}`;
+        } else {
+            current = null;
+        }
+    }
+    return items.filter((item) => item.activity.length > 0);
+}
+
+function matchWeeks(text: string): WeeklyPlanItem | null {
+    // "[1주차: 도입 교육] 회사 소개" reads as "1주차: 도입 교육 회사 소개".
+    const match = (text.startsWith("[") ? text.replace("]", " ") : text).match(WEEK_PATTERN);
+    if (!match || !match[2] && !match[4]) return null;
+
+    const [, fromText, fromUnit, toText, toUnit, activity] = match;
+    const from = Number(fromText);
+    const to = Number(toText ?? fromText);
+    // Plans written in months count four weeks per month.
+    return /[개달]/.test(toUnit ?? fromUnit)
+        ? {weeks: [(from - 1) * 4 + 1, to * 4], activity: activity.trim()}
+        : {weeks: [from, to], activity: activity.trim()};
+}
+
+function findSectionField(header: string): SectionField | undefined {
+    const normalized = header.replace(/[\s\/·,.()\-]/g, "");
+    return (Object.keys(SECTION_HEADERS) as SectionField[]).find((field) => SECTION_HEADERS[field].includes(normalized));
+}
+
+function countCharacters(text: string): number {
+    return text.replace(/\s/g, "").length;
+}
@@ -1,4 +1,5 @@
-import {standardizeDates} from "../util/date";
+import {addWarning, StatusConflict} from "../posting/posting";
+import {countDays, DateRange, normalizeFullDate} from "../util/date";
 
 /**
  * Parses selection information to extract applicable grade levels.
@@ -25,98 +26,55 @@ export function parseSelectionInfo(selectionInfo: string): number[] {
 }
 
 /**
- * Parses an internship period string to extract start and end dates.
+ * Parses an internship period string into ISO start and end dates.
  *
- * The function splits the input string by the "~" separator, trims any extra whitespace,
- * and returns an object containing the start and end dates as separate fields.
+ * The function splits the input string by the "~" separator and normalizes both sides with
+ * `normalizeFullDate`, so "2025.1.6 ~ 2025.2.28" and "2025-01-06 ~ 2025-02-28" give the same dates.
+ * A side that is missing or not a real calendar date is returned as null, which fails validation
+ * instead of passing the raw text on.
  *
  * @param {string} period - The input string representing the internship period (e.g., "2023-01-01 ~ 2023-06-30").
- * @returns {Record<string, string>} - An object with "startDate" and "endDate" as string fields.
+ * @returns {{startDate: string | null, endDate: string | null}} - The start and end dates in YYYY-MM-DD format.
  */
-export function parseInternshipPeriod(period: string): Record<string, string> {
-    const [start, end] = period.split("~").map((v) => v.trim());
-    return {startDate: start, endDate: end};
-}
-
-/**
- * Parses internship details from a given input string and extracts relevant information.
- *
- * The function matches various sections of the internship details using predefined regular
- * expressions and stores the extracted values in an object. It looks for specific sections
- * such as "직무명", "교육목표", "직무 개요", "운영/ 지도 계획", and "목표 성과물". Each extracted
- * value is trimmed and added to the result object under appropriate keys.
- *
- * @param {string} details - The input string containing internship details to be parsed.
- * @returns {Record<string, string>} - An object containing the parsed internship details such as job title, goals,
- *                                      job overview, operation guidance, and target outcomes.
- */
-export function parseInternshipDetails(details: string): Record<string, string> {
-    const result: Record<string, string> = {};
-    const patterns = {
-        jobTitle: /[*]직무명\s*:\s*([\s\S]*?)(?=\n[*]교육목표|$)/,
-        goals: /[*]교육목표\s*:\s*([\s\S]*?)(?=\n[*]직무 개요|$)/,
-        jobOverview: /[*]직무\s*개요\s*:\s*([\s\S]*?)(?=\n[*]운영\/ 지도 계획|$)/,
-        operationGuidance: /[*]운영\/ 지도 계획\s*:\s*([\s\S]*?)(?=\n[*]목표 성과물|$)/,
-        targetOutcomes: /[*]목표\s*성과물\s*:\s*([\s\S]*?)(?=$)/,
-    };
-
-    for (const [key, regex] of Object.entries(patterns)) {
-        const match = details.match(regex);
-        if (match && match[1]) {
-            result[key] = match[1].trim();
-        }
+export function parseInternshipPeriod(period: string): { startDate: string | null; endDate: string | null } {
+    const [start, end, ...rest] = period.split("~");
+    if (rest.length > 0) {
+        return {startDate: null, endDate: null};
     }
-
-    return result;
-}
-
-/**
- * Processes and standardizes interview information before adding it to the transformed data.
- *
- * The function extracts relevant interview details from the provided value and standardizes
- * any date-related information. It then adds the processed interview information to the
- * transformedData object under the key 'interviewInfo'.
- *
- * @param {Record<string, any>} transformedData - The object holding the transformed data where the result will be added.
- * @param {string} value - The input string containing interview-related information to be processed.
- */
-export function handleInterviewInfo(transformedData: Record<string, any>, value: string) {
-    const extractedValue = extractInterviewDetails(value);
-    transformedData['interviewInfo'] = standardizeDates(extractedValue);
+    return {startDate: normalizeFullDate(start), endDate: end === undefined ? null : normalizeFullDate(end)};
 }
 
 /**
- * Extracts interview-related details from an input string.
+ * Sets the internship dates of a posting, with their duration and a warning if they fall outside the program.
  *
- * The function processes the input string to extract various interview details such as interview type,
- * application submission period, application results announcement, and final results announcement using
- * predefined regular expressions. It removes any asterisks from the input before applying the patterns
- * and stores the extracted values in an object.
+ * `durationDays` counts both the first and the last day; `durationWeeks` rounds it up to whole weeks.
+ * Neither is set when a date is missing or the range is reversed. If the program's official window is
+ * known from the internship name (see `handleInternshipName`), a period that starts before or ends
+ * after it is recorded in `warnings`; the posting is still kept.
  *
- * @param {string} input - The input string containing interview details to be extracted.
- * @returns {Record<string, string>} - An object containing the extracted interview details such as
- *                                      "interviewType", "applicationSubmissionPeriod",
- *                                      "applicationResultsAnnouncement", and "finalResultsAnnouncement".
+ * @param {Record<string, any>} transformedData - The posting being transformed.
+ * @param {string} period - The input string representing the internship period.
  */
-function extractInterviewDetails(input: string): Record<string, string> {
-    const result: Record<string, string> = {};
-    const patterns = {
-        interviewType: /면접유형\s*:\s*([^\n]+)/,
-        applicationSubmissionPeriod: /서류\s*접수\s*기간\s*:\s*([^서류합격발표]+)/,
-        applicationResultsAnnouncement: /서류\s*합격\s*발표\s*:\s*([^면접일]+)/,
-        finalResultsAnnouncement: /최종\s*합격발표\s*:\s*([^\n]+)/,
-    };
+export function handleInternshipPeriod(transformedData: Record<string, any>, period: string): void {
+    const {startDate, endDate} = parseInternshipPeriod(period);
+    transformedData["startDate"] = startDate;
+    transformedData["endDate"] = endDate;
 
-    const cleanedInput = input.replace(/\*/g, '');
-
-    for (const [key, regex] of Object.entries(patterns)) {
-        const match = cleanedInput.match(regex);
-        if (match && match[1]) {
-            result[key] = match[1].trim();
-        }
+    if (!startDate || !endDate || startDate > endDate) {
+        return;
+    }
+    const durationDays = countDays(startDate, endDate);
+    transformedData["durationDays"] = durationDays;
+    transformedData["durationWeeks"] = Math.ceil(durationDays / 7);
+
+    const program: DateRange | undefined = transformedData["programPeriod"];
+    if (program?.start && program?.end && (startDate < program.start || endDate > program.end)) {
+        addWarning(transformedData, {
+            field: "internshipPeriod",
+            message: `falls outside the program period ${program.start} ~ ${program.end}`,
+            value: `${startDate} ~ ${endDate}`,
+        });
     }
-
-    return result;
 }
 
 /**
@@ -132,6 +90,33 @@ export function parseStatus(status: string): boolean {
     return status.trim() !== "접수마감";
 }
 
+/**
+ * Derives whether a posting is open from its crawled status and its deadline at the time of the crawl.
+ *
+ * A posting is open only if the crawler lists it as open and its deadline has not passed when it was
+ * crawled. When the two disagree, the conflict is returned: the crawler may still list a posting as open
+ * after its deadline, or an organization may close a posting early.
+ *
+ * @param {boolean} crawledStatus - The status parsed from the crawled text with `parseStatus`.
+ * @param {string} deadlineAt - The application deadline as an ISO timestamp.
+ * @param {string} crawledAt - The ISO timestamp of the crawl.
+ * @returns {{status: boolean, conflict?: StatusConflict}} - The derived status and the disagreement, if any.
+ */
+export function deriveStatus(crawledStatus: boolean, deadlineAt: string, crawledAt: string): {
+    status: boolean;
+    conflict?: StatusConflict;
+} {
+    const deadlinePassed = Date.parse(crawledAt) > Date.parse(deadlineAt);
+
+    if (crawledStatus && deadlinePassed) {
+        return {status: false, conflict: "OPEN_AFTER_DEADLINE"};
+    }
+    if (!crawledStatus && !deadlinePassed) {
+        return {status: false, conflict: "CLOSED_BEFORE_DEADLINE"};
+    }
+    return {status: crawledStatus};
+}
+
 /**
  * Cleans and extracts currency information from a given string.
  *
@@ -156,25 +141,27 @@ export function cleanCurrency(value: string): { period: string; amount: number }
  * Parses the internship season details from an input string.
  *
  * This function extracts the year, semester, and program type (short-term or long-term)
- * from a given input. It returns an object containing:
+ * from a given input, along with the program's official period when the name carries one
+ * (e.g., "2024년도 겨울학기 단기 현장실습(,2024.12.23~2025.02.28)"). It sets on the posting:
  * - `year` (number): The year of the internship.
  * - `semester` (string): The semester (e.g., "1학기").
  * - `programType` (string): The type of internship (short-term or long-term).
+ * - `programPeriod` ({start, end}): The program's first and last day in YYYY-MM-DD format.
  *
- * @param transformedData
+ * @param transformedData - The posting being transformed.
  * @param {string} input - The input string with internship details.
- * @returns {Object} - An object with `year`, `semester`, and `programType`.
  */
 export function handleInternshipName(transformedData: Record<string, any>, input: string): void {
     const yearMatch = input.match(/(\d{4})년도/);
     const semesterMatch = input.match(/(1학기|여름학기|2학기|겨울학기)/);
     const programTypeMatch = input.match(/(단기|장기)\s*현장실습/);
+    const periodMatch = input.match(/\(([^()]*~[^()]*)\)/);
 
     if (yearMatch) transformedData['year'] = parseInt(yearMatch[1], 10);
     if (semesterMatch) transformedData['semester'] = semesterMatch[1];
     if (programTypeMatch) transformedData['programType'] = programTypeMatch[1];
-}
-
-export function parseOrganizationName(value: string) {
-    return value.split('/')[0].trim();
+    if (periodMatch) {
+        const {startDate, endDate} = parseInternshipPeriod(periodMatch[1].replace(/^[\s,]+/, ""));
+        transformedData['programPeriod'] = {start: startDate, end: endDate};
+    }
 }
@@ -0,0 +1,148 @@
+import {DateContext, DateRange, parseDateRange, parseKoreanTime} from "../util/date";
+
+/**
+ * Whether a posting publishes a selection schedule.
+ *
+ * - `published`: at least one schedule line was found.
+ * - `designated`: the posting is reserved for a designated student (e.g., "지정연계 학생을 위한 모집공고입니다.").
+ * - `missing`: the posting has no recognizable schedule.
+ */
+export type ScheduleStatus = "published" | "designated" | "missing";
+
+export interface InterviewSchedule {
+    interviewType: string | null;
+    scheduleStatus: ScheduleStatus;
+    applicationPeriod: (DateRange & { endTime: string | null }) | null;
+    documentResultDate: string | null;
+    documentResultTime: string | null;
+    interviewDates: (DateRange & { adjustable: boolean }) | null;
+    finalResultDate: string | null;
+    finalResultTime: string | null;
+    raw: {
+        content: string;
+        applicationPeriod?: string;
+        documentResult?: string;
+        interview?: string;
+        finalResult?: string;
+    };
+}
+
+type ScheduleLine = Exclude<keyof InterviewSchedule["raw"], "content">;
+
+const LINE_PATTERNS: Record<ScheduleLine, RegExp> = {
+    applicationPeriod: /^서류\s*접수(?:\s*기간)?(?:\s*\([^)]*\))?\s*:\s*(.*)$/,
+    documentResult: /^서류\s*합격(?:자)?\s*발표\s*:\s*(.*)$/,
+    interview: /^(?:면접\s*(?:일|기간)|선발\s*면접|\d차\s*\S*면접)\s*:\s*(.*)$/,
+    finalResult: /^(?:최종\s*합격(?:자)?\s*발표|기업\s*전형\s*및\s*최종\s*선발)\s*:\s*(.*)$/,
+};
+
+const DESIGNATED_PATTERN = /지정\s*연계/;
+const ADJUSTABLE_PATTERN = /조정\s*가능|조율|협의|변동|상시|수시/;
+
+/**
+ * Parses interview information and adds it to the transformed data.
+ *
+ * The schedule is resolved against the `year` and `semester` already set by `handleInternshipName`,
+ * which is needed for dates written without a year.
+ *
+ * @param {Record<string, any>} transformedData - The object holding the transformed data where the result will be added.
+ * @param {string} value - The input string containing interview-related information to be processed.
+ */
+export function handleInterviewInfo(transformedData: Record<string, any>, value: string) {
+    transformedData['interviewInfo'] = parseInterviewSchedule(value, {
+        year: transformedData['year'],
+        semester: transformedData['semester'],
+    });
+}
+
+/**
+ * Parses the raw interview information into a typed schedule.
+ *
+ * The crawled value has a header ("면접유형", "면접일") followed by free text after "내용 :". Each line of
+ * the free text is matched against known labels (e.g., "서류 접수 기간", "서류 합격발표", "면접일",
+ * "최종합격발표") and its dates are resolved into ISO dates. When several lines share a label (e.g., a
+ * first and a second interview round), the first application and result lines win and the interview
+ * range spans all rounds. The "면접일" header is used when the free text has no interview line.
+ *
+ * @param {string} input - The input string containing interview details.
+ * @param {DateContext} context - The program's year and semester used to resolve dates without a year.
+ * @returns {InterviewSchedule} - The parsed schedule, with the raw text of every line kept next to it.
+ */
+export function parseInterviewSchedule(input: string, context: DateContext): InterviewSchedule {
+    const interviewType = input.match(/면접유형\s*:\s*([^\n]+)/)?.[1].trim() || null;
+    const headerInterviewDate = input.match(/면접일[ \t]*:[ \t]*([^\n]*)\n\s*내용/)?.[1].trim();
+    const content = (input.split(/내용\s*:/)[1] ?? "").trim();
+
+    const raw: InterviewSchedule["raw"] = {content};
+    const interviewLines: string[] = [];
+
+    for (const line of content.split("\n")) {
+        const cleaned = line.replace(/^[\s*\-•※]+/, "").trim();
+        for (const [key, pattern] of Object.entries(LINE_PATTERNS) as [ScheduleLine, RegExp][]) {
+            const match = cleaned.match(pattern);
+            if (!match) continue;
+
+            if (key === "interview") {
+                interviewLines.push(match[1].trim());
+            }
+            raw[key] ??= match[1].trim();
+            break;
+        }
+    }
+
+    if (interviewLines.length === 0 && headerInterviewDate) {
+        interviewLines.push(headerInterviewDate.replace(/-/g, "."));
+        raw.interview = headerInterviewDate;
+    }
+    if (interviewLines.length > 1) {
+        raw.interview = interviewLines.join(" / ");
+    }
+
+    const hasScheduleLine = Object.keys(raw).length > 1;
+    const scheduleStatus: ScheduleStatus = hasScheduleLine
+        ? "published"
+        : DESIGNATED_PATTERN.test(content) ? "designated" : "missing";
+
+    return {
+        interviewType,
+        scheduleStatus,
+        applicationPeriod: parseApplicationPeriod(raw.applicationPeriod, context),
+        documentResultDate: parseSingleDate(raw.documentResult, context),
+        documentResultTime: raw.documentResult ? parseKoreanTime(raw.documentResult) : null,
+        interviewDates: parseInterviewDates(interviewLines, context),
+        finalResultDate: parseSingleDate(raw.finalResult, context),
+        finalResultTime: raw.finalResult ? parseKoreanTime(raw.finalResult) : null,
+        raw,
+    };
+}
+
+function parseApplicationPeriod(text: string | undefined, context: DateContext): InterviewSchedule["applicationPeriod"] {
+    if (!text) return null;
+
+    const range = parseDateRange(text, context);
+    if (!range) return null;
+
+    // A single date without "~" is the last day applications are accepted.
+    const start = range.start === range.end ? null : range.start;
+    return {start, end: range.end, endTime: parseKoreanTime(text)};
+}
+
+function parseSingleDate(text: string | undefined, context: DateContext): string | null {
+    if (!text) return null;
+    const range = parseDateRange(text, context);
+    return range?.end ?? range?.start ?? null;
+}
+
+function parseInterviewDates(lines: string[], context: DateContext): InterviewSchedule["interviewDates"] {
+    const ranges = lines.map((line) => parseDateRange(line, context)).filter((range) => range !== null);
+    const adjustable = lines.some((line) => ADJUSTABLE_PATTERN.test(line));
+
+    if (ranges.length === 0) {
+        return lines.length > 0 ? {start: null, end: null, adjustable} : null;
+    }
+
+    const starts = ranges.map((range) => range.start).filter((date) => date !== null).sort();
+    const ends = ranges.map((range) => range.end).filter((date) => date !== null).sort();
+
+    return {start: starts[0] ?? null, end: ends[ends.length - 1] ?? null, adjustable};
+}
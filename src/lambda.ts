@@ -1,111 +1,276 @@
 import {S3Handler} from "aws-lambda";
-import {EXCLUDE_KEYS, INVALID_VALUES, KEY_MAPPING} from "./constants";
-import {saveToDynamoDB} from "./aws/dynamo";
-import {getS3File} from "./aws/s3";
-import {handleMajors, handleQualifications} from "./major/major";
-import {normalizeDeadlineTime} from "./util/date";
-import {handleWorkingHours, parseWorkingDays} from "./work/work";
-import {cleanGenericValue} from "./util/util";
-import {
-    cleanCurrency,
-    handleInternshipName,
-    handleInterviewInfo,
-    parseInternshipDetails,
-    parseInternshipPeriod,
-    parseOrganizationName,
-    parseSelectionInfo,
-    parseStatus
-} from "./internship/internship";
+import {ETL_OUTPUT_PREFIXES, QUARANTINE_PREFIX, REPORT_PREFIX} from "./constants";
+import {getS3ObjectStream, saveToS3} from "./aws/s3";
+import {inBatches, isGzipped, readJsonRecords} from "./util/stream";
+import {FieldError, RECRUIT_POSTING_SCHEMA_VERSION, RecruitPosting, validateRecruitPosting} from "./posting/posting";
+import {createSinks} from "./sink/registry";
+import {createSinkFanout, PostingRef, toProcessedKey} from "./sink/sink";
+import {getConfig} from "./config/config";
+import {buildProcessingReport, ProcessingReport, RecordFailure, toRecordFailure} from "./posting/report";
+import {createTransformPipeline, TransformContext} from "./transform/transform";
+import {FIELD_TRANSFORMERS, POST_PROCESSORS} from "./transform/transformers";
+import {initOrganizationRules} from "./rules/rules";
+import {MAJOR_TAXONOMY_VERSION} from "./major/taxonomy";
+
+const transformFields = createTransformPipeline(FIELD_TRANSFORMERS, POST_PROCESSORS);
+
+// Validated during the cold start in Lambda, so a misconfigured deploy fails at init instead of on every event.
+if (process.env.AWS_LAMBDA_FUNCTION_NAME) {
+    getConfig();
+}
 
 export const handler: S3Handler = async (event) => {
+    const config = getConfig();
+
     try {
+        await initOrganizationRules();
+
         for (const record of event.Records) {
             const bucketName = record.s3.bucket.name;
             const key = decodeURIComponent(record.s3.object.key.replace(/\+/g, " "));
 
+            if (isEtlOutputKey(key)) {
+                console.log(`Skipping ETL output file: Key=${key}`);
+                continue;
+            }
+
             console.log(`Processing file from S3: Bucket=${bucketName}, Key=${key}`);
+            // The event time is when the crawler wrote the object, which is the closest we have to the crawl
+            // itself; a retried or delayed invocation must not make the postings look newer than they are.
+            const crawledAt = new Date(record.eventTime).toISOString();
+            await deliverRawObject(bucketName, key, readRawBatches(bucketName, key, crawledAt), config.sinks, crawledAt);
+        }
+    } catch (error) {
+        console.error("Error processing SQS event:", error);
+        throw error;
+    }
+};
+
+/**
+ * A batch of raw postings that has been transformed and validated, but not written anywhere yet.
+ */
+export interface TransformedBatch {
+    total: number;
+    postings: RecruitPosting[];
+    failures: RecordFailure[];
+    valid: RecruitPosting[];
+    quarantined: { id: any; errors: FieldError[]; posting: RecruitPosting }[];
+}
+
+/**
+ * Checks whether an S3 key holds output of the ETL rather than a raw crawl.
+ *
+ * @param {string} key - The S3 object key.
+ * @returns {boolean} - True if the key is under one of the ETL output prefixes.
+ */
+export function isEtlOutputKey(key: string): boolean {
+    return ETL_OUTPUT_PREFIXES.some((prefix) => key.startsWith(prefix));
+}
+
+/**
+ * Streams a raw crawl object from S3 and transforms it in batches of `BATCH_SIZE` postings.
+ *
+ * The object may be a JSON array or NDJSON, optionally gzip-compressed (detected by a ".gz" key or a gzip
+ * Content-Encoding). Only one batch is held in memory at a time.
+ *
+ * @param {string} bucketName - The bucket of the raw crawl.
+ * @param {string} key - The key of the raw crawl.
+ * @param {string} crawledAt - The ISO timestamp of the crawl, used to check the deadlines of the postings.
+ * @returns {AsyncGenerator<TransformedBatch>} - The transformed and validated batches, in file order.
+ */
+export async function* readRawBatches(bucketName: string, key: string, crawledAt?: string): AsyncGenerator<TransformedBatch> {
+    const {body, contentEncoding} = await getS3ObjectStream(bucketName, key);
+    const records = readJsonRecords(body, {gzip: isGzipped(key, contentEncoding)});
+
+    for await (const batch of inBatches(records, getConfig().batchSize)) {
+        yield transformBatch(batch, {crawledAt});
+    }
+}
+
+/**
+ * Transforms raw postings and splits them into valid and quarantined ones.
+ *
+ * @param {Record<string, any>[]} rawPostings - The raw postings of a batch.
+ * @param {TransformContext} context - The crawl the postings came from.
+ * @returns {TransformedBatch} - The transformed postings with their failures and validation results.
+ */
+export function transformBatch(rawPostings: Record<string, any>[], context: TransformContext = {}): TransformedBatch {
+    const {postings, failures} = transformRecords(rawPostings, context);
+    const {valid, quarantined} = partitionValidPostings(postings);
+    return {total: rawPostings.length, postings, failures, valid, quarantined};
+}
 
-            const jsonData = await getS3File(bucketName, key);
+/**
+ * Writes the batches of a crawl object to the configured sinks, then the quarantined postings and the processing report.
+ *
+ * Each batch of valid postings is written as soon as it is available. The sinks are only closed (which
+ * e.g. marks missing postings removed) once every batch has been read; if reading fails half-way, the
+ * sinks are aborted instead, discarding their partial output, and the error propagates, so a truncated
+ * object never closes postings it did not get to.
+ *
+ * @param {string} bucketName - The bucket of the raw crawl.
+ * @param {string} key - The key of the raw crawl.
+ * @param {AsyncIterable<TransformedBatch> | Iterable<TransformedBatch>} batches - The transformed batches.
+ * @param {string[]} sinkNames - The sinks to write the valid postings to.
+ * @param {string} crawledAt - The ISO timestamp recorded as the time the postings were seen.
+ * @param {Date} startedAt - When processing of the object started, for the report.
+ * @returns {Promise<ProcessingReport>} - The processing report, also written under the `reports/` prefix.
+ * @throws {Error} - Throws if a sink failed or the share of failed postings is above `maxFailureRatio`.
+ */
+export async function deliverRawObject(
+    bucketName: string,
+    key: string,
+    batches: AsyncIterable<TransformedBatch> | Iterable<TransformedBatch>,
+    sinkNames: string[],
+    crawledAt: string,
+    startedAt: Date = new Date(),
+): Promise<ProcessingReport> {
+    const {maxFailureRatio} = getConfig();
+    const crawled: PostingRef[] = [];
+    const failures: RecordFailure[] = [];
+    const quarantined: TransformedBatch["quarantined"] = [];
+    const majorTerms: Pick<RecruitPosting, "id" | "unmatchedMajorTerms">[] = [];
+    let total = 0;
 
-            const transformedData = jsonData.map(transformData);
+    const sinks = createSinkFanout(createSinks(sinkNames));
+    await sinks.init({bucket: bucketName, key, crawledAt, crawled});
 
-            await saveToDynamoDB(transformedData);
+    try {
+        for await (const batch of batches) {
+            total += batch.total;
+            failures.push(...batch.failures);
+            quarantined.push(...batch.quarantined);
+            for (const {id, year, semester, unmatchedMajorTerms} of batch.postings) {
+                crawled.push({id, year, semester});
+                if (unmatchedMajorTerms) majorTerms.push({id, unmatchedMajorTerms});
+            }
+            crawled.push(...batch.failures.filter((failure) => failure.id !== undefined).map((failure) => ({id: failure.id})));
+
+            await sinks.write(batch.valid);
         }
     } catch (error) {
-        console.error("Error processing SQS event:", error);
+        console.error(`Failed to read Key=${key}, aborting the sinks:`, error);
+        await sinks.abort();
         throw error;
     }
-};
+    if (failures.length > 0) {
+        console.warn(`Failed to transform ${failures.length} of ${total} posting(s) from Key=${key}`);
+    }
+
+    if (quarantined.length > 0) {
+        console.warn(`Quarantining ${quarantined.length} invalid posting(s) from Key=${key}`);
+        await saveToS3(bucketName, `${QUARANTINE_PREFIX}${toProcessedKey(key)}`, {
+            sourceKey: key,
+            schemaVersion: RECRUIT_POSTING_SCHEMA_VERSION,
+            quarantinedAt: crawledAt,
+            records: quarantined,
+        });
+    }
+
+    const results = await sinks.close();
+    for (const {sink, written, failedIn} of results) {
+        console.log(`Sink ${sink}: ${failedIn ? `failed during ${failedIn}` : `wrote ${written} posting(s)`}`);
+    }
+
+    const report = buildProcessingReport({
+        bucket: bucketName,
+        key,
+        startedAt,
+        total,
+        quarantined: quarantined.length,
+        failures,
+        postings: majorTerms,
+        sinkResults: results,
+    });
+    await saveToS3(bucketName, `${REPORT_PREFIX}${toProcessedKey(key)}`, report);
+
+    const failed = results.filter((result) => result.error);
+    if (failed.length > 0) {
+        throw new Error(`Sink(s) failed for Key=${key}: ${failed.map((result) => `${result.sink} (${result.error.message})`).join(", ")}`);
+    }
+    if (report.failureRatio > maxFailureRatio) {
+        throw new Error(`${report.failed} of ${report.total} posting(s) failed to transform for Key=${key}, above the threshold of ${maxFailureRatio}`);
+    }
+    return report;
+}
 
 /**
  * Transforms the input data by mapping keys, excluding specific fields,
  * and normalizing or cleaning values based on predefined rules.
  *
+ * Each field is handled by its transformer in `FIELD_TRANSFORMERS`, in an order resolved from their
+ * declared dependencies rather than the key order of the crawled data. Cross-field rules in
+ * `POST_PROCESSORS` run afterwards. Without a crawl time in `context`, the status is taken from the
+ * crawled data alone.
+ *
  * @param {Record<string, any>} data - The input data to be transformed.
- * @returns {Record<string, any>} - The transformed data after applying necessary changes.
+ * @param {TransformContext} context - The crawl the posting came from.
+ * @returns {RecruitPosting} - The transformed posting, stamped with the current schema and major taxonomy versions.
+ * @throws {TransformError} - Throws if a field cannot be transformed, naming the field and its raw value.
  */
-export function transformData(data: Record<string, any>): Record<string, any> {
-    const transformedData: Record<string, any> = {};
+export function transformData(data: Record<string, any>, context: TransformContext = {}): RecruitPosting {
+    const transformedData: Record<string, any> = {
+        schemaVersion: RECRUIT_POSTING_SCHEMA_VERSION,
+        taxonomyVersion: MAJOR_TAXONOMY_VERSION,
+    };
+    transformFields(data, transformedData, context);
+    return transformedData as RecruitPosting;
+}
 
-    for (let [key, value] of Object.entries(data)) {
-        const newKey = KEY_MAPPING[key] || key;
+/**
+ * Transforms raw postings one by one, isolating failures.
+ *
+ * A posting that makes `transformData` throw is left out of the result and reported as a failure
+ * instead of failing the whole crawl object.
+ *
+ * @param {Record<string, any>[]} rawPostings - The raw postings of a crawl object.
+ * @param {TransformContext} context - The crawl the postings came from.
+ * @returns {{postings: RecruitPosting[], failures: RecordFailure[]}} - The transformed postings and the failed ones.
+ */
+export function transformRecords(rawPostings: Record<string, any>[], context: TransformContext = {}): {
+    postings: RecruitPosting[];
+    failures: RecordFailure[];
+} {
+    const postings: RecruitPosting[] = [];
+    const failures: RecordFailure[] = [];
 
-        if (EXCLUDE_KEYS.includes(newKey) || INVALID_VALUES.includes(value)) {
-            continue;
+    for (const raw of rawPostings) {
+        try {
+            postings.push(transformData(raw, context));
+        } catch (error) {
+            failures.push(toRecordFailure(raw, error));
         }
+    }
 
-        switch (newKey) {
-            case "deadlineTime":
-                transformedData[newKey] = normalizeDeadlineTime(value);
-                break;
-            case "majors":
-                if (transformedData['organizationName'].includes('삼성전자')) {
-                    value = '이공계열';
-                }
-                transformedData['announcedMajors'] = value;
-                transformedData[newKey] = handleMajors(value);
-                break;
-            case "qualifications":
-                handleQualifications(transformedData, value);
-                break;
-            case "internshipPeriod":
-                Object.assign(transformedData, parseInternshipPeriod(value));
-                break;
-            case "internshipDetails":
-                transformedData[newKey] = parseInternshipDetails(value);
-                break;
-            case "internshipName":
-                handleInternshipName(transformedData, value);
-                break
-            case "interviewInfo":
-                handleInterviewInfo(transformedData, value);
-                break;
-            case "organizationSupportAmount":
-                transformedData[newKey] = cleanCurrency(value);
-                break;
-            case "status":
-                transformedData[newKey] = parseStatus(value);
-                break;
-            case "workingHours":
-                handleWorkingHours(value, transformedData);
-                continue;
-            case "workingDays":
-                transformedData[newKey] = parseWorkingDays(value);
-                break;
-            case "selectionInfo":
-                transformedData[newKey] = parseSelectionInfo(value);
-                break;
-            case "id":
-                transformedData[newKey] = parseInt(value);
-                break;
-            case "organizationName":
-                transformedData[newKey] = parseOrganizationName(value);
-                break;
-            default:
-                transformedData[newKey] = cleanGenericValue(value);
-                break;
+    return {postings, failures};
+}
+
+/**
+ * Splits transformed postings into valid ones and ones that must be quarantined.
+ *
+ * Each posting is run through the schema validator. Invalid postings are returned together with their
+ * per-field errors so they can be written to the quarantine output, while the valid ones continue on
+ * to the normal sinks.
+ *
+ * @param {RecruitPosting[]} postings - The transformed postings to be validated.
+ * @returns {{valid: RecruitPosting[], quarantined: {id: any, errors: FieldError[], posting: RecruitPosting}[]}}
+ *          - The valid postings and the quarantined postings with their errors.
+ */
+export function partitionValidPostings(postings: RecruitPosting[]): {
+    valid: RecruitPosting[];
+    quarantined: { id: any; errors: FieldError[]; posting: RecruitPosting }[];
+} {
+    const valid: RecruitPosting[] = [];
+    const quarantined: { id: any; errors: FieldError[]; posting: RecruitPosting }[] = [];
+
+    for (const posting of postings) {
+        const errors = validateRecruitPosting(posting);
+        if (errors.length === 0) {
+            valid.push(posting);
+        } else {
+            quarantined.push({id: posting.id, errors, posting});
         }
     }
 
-    return transformedData;
+    return {valid, quarantined};
 }
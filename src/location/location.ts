@@ -0,0 +1,200 @@
+import * as bundledRegions from "./regions.json";
+
+export interface District {
+    code: string;
+    name: string;
+}
+
+/**
+ * A 시/군/구 and, for cities divided into 구 (e.g., 성남시), its districts.
+ */
+export interface Sigungu {
+    code: string;
+    name: string;
+    aliases?: string[];
+    districts?: District[];
+}
+
+export interface Sido {
+    code: string;
+    name: string;
+    aliases?: string[];
+    sigungu: Sigungu[];
+}
+
+/**
+ * The table of Korean administrative regions, with the 법정동 codes of every 시/도 and 시/군/구.
+ */
+export interface RegionTable {
+    version: string;
+    sido: Sido[];
+}
+
+/**
+ * The normalized location of a posting.
+ *
+ * `regionCode` is the code of the most specific region that was recognized: the five-digit 시/군/구 (or
+ * district) code, or the two-digit 시/도 code when only the province is known. Every field except `raw`
+ * is null for a location outside the table.
+ */
+export interface Location {
+    sido: string | null;
+    sigungu: string | null;
+    regionCode: string | null;
+    raw: string;
+}
+
+interface RegionName {
+    text: string;
+    // Short forms such as "강남" for 강남구 only match as a whole word.
+    whole: boolean;
+}
+
+interface Candidate<T> {
+    names: RegionName[];
+    value: T;
+}
+
+const regions = parseRegionTable(bundledRegions);
+const sidoCandidates: Candidate<Sido>[] = regions.sido.map((sido) => ({
+    names: [sido.name, ...(sido.aliases ?? [])].map((text) => ({text, whole: false})),
+    value: sido,
+}));
+const nationalSigunguCandidates = sigunguCandidates(regions.sido);
+
+/**
+ * Parses and validates a region table.
+ *
+ * 시/도 codes must be two digits and 시/군/구 and district codes five digits starting with the code of
+ * their parent. Every problem is reported at once.
+ *
+ * @param {any} data - The parsed JSON of a region table.
+ * @returns {RegionTable} - The validated table.
+ * @throws {Error} - Throws an error listing every problem of the table.
+ */
+export function parseRegionTable(data: any): RegionTable {
+    const errors: string[] = [];
+
+    if (typeof data?.version !== "string" || data.version.length === 0) errors.push("version is required");
+    if (!Array.isArray(data?.sido) || data.sido.length === 0) {
+        throw new Error("Invalid region table: sido must be a non-empty array");
+    }
+
+    for (const sido of data.sido) {
+        if (!/^\d{2}$/.test(sido?.code)) errors.push(`${sido?.name ?? "(no name)"}: code must be two digits`);
+        if (!Array.isArray(sido?.sigungu)) {
+            errors.push(`${sido?.name ?? "(no name)"}: sigungu must be an array`);
+            continue;
+        }
+        for (const sigungu of sido.sigungu) {
+            for (const region of [sigungu, ...(sigungu?.districts ?? [])]) {
+                if (typeof region?.code !== "string" || !/^\d{5}$/.test(region.code) || !region.code.startsWith(sido.code)) {
+                    errors.push(`${sido.name} ${region?.name ?? "(no name)"}: code must be five digits starting with ${sido.code}`);
+                }
+            }
+        }
+    }
+
+    if (errors.length > 0) {
+        throw new Error(`Invalid region table:\n - ${errors.join("\n - ")}`);
+    }
+    return data;
+}
+
+/**
+ * Normalizes a free-text location (e.g., "서울시 강남구", "경기 성남시 분당구", "충남 천안") into its 시/도 and 시/군/구.
+ *
+ * The 시/도 is read from the start of the text by its full name or a common abbreviation ("서울", "경기",
+ * "충남"). The 시/군/구 that follows is matched by its full name or, as a whole word, by its name without
+ * the 시/군/구 suffix; cities divided into districts are refined to the district when one follows. A text
+ * that starts with the longer name of a single 시/군/구 is read as that 시/군/구 rather than a 시/도 whose
+ * abbreviation it starts with, so "광주시 오포읍" is in 경기도 while "광주 북구" is in 광주광역시.
+ * Without a 시/도, the 시/군/구 alone is used if its name is unique in the country ("성남시 분당구", but
+ * not "중구"). Anything after the recognized regions (e.g., a street address) is ignored. Matching uses
+ * only the bundled table, without any geocoding service.
+ *
+ * @param {string} raw - The location as crawled.
+ * @returns {Location} - The normalized location; the region fields are null if nothing was recognized.
+ */
+export function normalizeLocation(raw: string): Location {
+    const location: Location = {sido: null, sigungu: null, regionCode: null, raw};
+    let text = raw.trim();
+
+    let sidoMatch = matchLeading(text, sidoCandidates)[0];
+    const nationalMatches = matchLeading(text, nationalSigunguCandidates);
+    if (sidoMatch && nationalMatches.length === 1 && nationalMatches[0].rest.length < sidoMatch.rest.length) {
+        sidoMatch = undefined;
+    }
+
+    let sidoList = regions.sido;
+    if (sidoMatch) {
+        text = sidoMatch.rest;
+        sidoList = [sidoMatch.value];
+        location.sido = sidoMatch.value.name;
+        location.regionCode = sidoMatch.value.code;
+    }
+
+    const sigunguMatches = sidoMatch ? matchLeading(text, sigunguCandidates(sidoList)) : nationalMatches;
+    // A 시/도 without 시/군/구 (세종특별자치시) stands for its only region.
+    const sigunguMatch = sigunguMatches.length === 1
+        ? sigunguMatches[0]
+        : sidoMatch?.value.sigungu.length === 1 && sigunguMatches.length === 0
+            ? {value: {sido: sidoMatch.value, sigungu: sidoMatch.value.sigungu[0]}, rest: text}
+            : undefined;
+    if (!sigunguMatch) {
+        return location;
+    }
+
+    const {value: {sido, sigungu}, rest} = sigunguMatch;
+    location.sido = sido.name;
+    location.sigungu = sigungu.name;
+    location.regionCode = sigungu.code;
+
+    const districtMatch = matchLeading(rest, (sigungu.districts ?? []).map((district) => ({
+        names: sigunguNames(district),
+        value: district,
+    })))[0];
+    if (districtMatch) {
+        location.sigungu = `${sigungu.name} ${districtMatch.value.name}`;
+        location.regionCode = districtMatch.value.code;
+    }
+    return location;
+}
+
+function sigunguCandidates(sidoList: Sido[]): Candidate<{ sido: Sido; sigungu: Sigungu }>[] {
+    return sidoList.flatMap((sido) => sido.sigungu.map((sigungu) => ({
+        names: sigunguNames(sigungu),
+        value: {sido, sigungu},
+    })));
+}
+
+function sigunguNames(region: { name: string; aliases?: string[] }): RegionName[] {
+    const names = [region.name, ...(region.aliases ?? [])].map((text) => ({text, whole: false}));
+    const stem = region.name.replace(/[시군구]$/, "");
+    if (stem !== region.name && stem.length >= 2) {
+        names.push({text: stem, whole: true});
+    }
+    return names;
+}
+
+/**
+ * Finds the candidates whose name starts the text, keeping only the longest matches.
+ */
+function matchLeading<T>(text: string, candidates: Candidate<T>[]): { value: T; rest: string }[] {
+    let best: { value: T; rest: string }[] = [];
+    let bestLength = 0;
+
+    for (const candidate of candidates) {
+        const length = Math.max(0, ...candidate.names
+            .filter(({text: name, whole}) => text.startsWith(name) && (!whole || /^($|[\s,()])/.test(text.slice(name.length))))
+            .map(({text: name}) => name.length));
+
+        if (length === 0 || length < bestLength) continue;
+        if (length > bestLength) {
+            best = [];
+            bestLength = length;
+        }
+        best.push({value: candidate.value, rest: text.slice(length).trim()});
+    }
+    return best;
+}
@@ -1,4 +1,4 @@
-import {colleges, relatedColleges, special} from "../constants";
+import {getMajorIndex} from "./taxonomy";
 import * as levenshtein from 'fastest-levenshtein';
 
 /**
@@ -11,8 +11,7 @@ import * as levenshtein from 'fastest-levenshtein';
  * @returns {string[]} - An array of related majors based on the parsed input.
  */
 export function handleMajors(value: string): string[] {
-    const majors = parseMajors(value);
-    return findRelatedMajor(majors);
+    return resolveMajors(value).majors;
 }
 
 /**
@@ -63,29 +62,97 @@ export function parseMajors(selection: string): string[] {
     return [...extractedSpecials, ...cleanedMajors];
 }
 
+export type MajorMatchMethod = "any" | "major" | "alias" | "prefix" | "special" | "college" | "category" | "fuzzy";
+
+/**
+ * A major resolved from an announced term, with how it was matched.
+ */
+export interface MajorMatch {
+    major: string;
+    method: MajorMatchMethod;
+    term: string;
+    confidence: number;
+}
+
+export interface MajorResolution {
+    majors: string[];
+    matches: MajorMatch[];
+    unmatched: string[];
+}
+
+/**
+ * Confidence of each match method, from an exact department name down to a Levenshtein correction.
+ */
+export const MATCH_CONFIDENCE: Record<MajorMatchMethod, number> = {
+    any: 1,
+    major: 1,
+    alias: 0.95,
+    special: 0.9,
+    prefix: 0.8,
+    college: 0.7,
+    category: 0.6,
+    fuzzy: 0.5,
+};
+
+/**
+ * Resolves a major string into related majors, keeping track of how each major was matched.
+ *
+ * @param {string} value - The input string containing majors information to be processed.
+ * @returns {MajorResolution} - The related majors, their matches and the terms that matched nothing.
+ */
+export function resolveMajors(value: string): MajorResolution {
+    return matchMajors(parseMajors(value));
+}
+
 /**
  * Finds and returns related majors based on input strings.
  *
+ * @param {string[]} inputs - An array of strings representing majors or related terms to be matched.
+ * @returns {string[]} - An array of related majors found based on the input.
+ */
+export function findRelatedMajor(inputs: string[]): string[] {
+    return matchMajors(inputs).majors;
+}
+
+/**
+ * Matches input strings against the known majors.
+ *
  * The function takes an array of input strings (e.g., majors or related terms) and tries to find exact or near matches
  * with known majors in colleges, special categories, and related fields. It checks for matches in multiple levels: special
- * categories, fields of study, colleges, and individual majors. It uses the Levenshtein distance algorithm to find
+ * categories, fields of study, colleges, individual majors and their aliases, all taken from the major taxonomy. It uses the Levenshtein distance algorithm to find
  * the best match when no exact match is found. If the input is "무관", it returns that as the result.
  *
+ * Every resolved major carries the method and source term of its most confident match (see {@link MATCH_CONFIDENCE}).
+ * Terms that match nothing, not even by Levenshtein distance, are returned as `unmatched`.
+ *
  * @param {string[]} inputs - An array of strings representing majors or related terms to be matched.
- * @returns {string[]} - An array of related majors found based on the input.
+ * @param {string} campusId - The campus of the taxonomy to match against, defaults to its default campus.
+ * @returns {MajorResolution} - The related majors, their matches and the terms that matched nothing.
  */
-export function findRelatedMajor(inputs: string[]): string[] {
-    const relatedData: Set<string> = new Set();
+export function matchMajors(inputs: string[], campusId?: string): MajorResolution {
+    const {colleges, categories: relatedColleges, groups: special, aliases} = getMajorIndex(campusId);
+    const matches = new Map<string, MajorMatch>();
+    const unmatched: string[] = [];
 
-    const flatInputs = inputs
+    const terms = inputs
         .flatMap((input) => input.split(/[,\s]+/))
-        .map((str) => str.replace(/학과|학부|전공|학/g, "").trim())
-        .filter((str) => str.length > 0);
+        .map((term) => ({term, input: normalizeTerm(term)}))
+        .filter(({input}) => input.length > 0);
 
     const allMajors = new Set<string>();
     Object.values(colleges).forEach((majors) => majors.forEach((major) => allMajors.add(major)));
     Object.values(special).forEach((majors) => majors.forEach((major) => allMajors.add(major)));
 
+    function addMatch(major: string, method: MajorMatchMethod, term: string) {
+        const confidence = MATCH_CONFIDENCE[method];
+        const existing = matches.get(major);
+        if (!existing) {
+            matches.set(major, {major, method, term, confidence});
+        } else if (confidence > existing.confidence) {
+            Object.assign(existing, {method, term, confidence});
+        }
+    }
+
     function correctMajor(input: string): string {
         let bestMatch = "";
         let bestDistance = Infinity;
@@ -103,9 +170,9 @@ export function findRelatedMajor(inputs: string[]): string[] {
         return bestMatch || input;
     }
 
-    for (const input of flatInputs) {
+    for (const {term, input} of terms) {
         if (input === "무관") {
-            return [input];
+            return {majors: [input], matches: [{major: input, method: "any", term, confidence: MATCH_CONFIDENCE.any}], unmatched: []};
         }
 
         let foundExactMatch = false;
@@ -113,7 +180,7 @@ export function findRelatedMajor(inputs: string[]): string[] {
         // Check special inputs first
         for (const [specialKey, majors] of Object.entries(special)) {
             if (specialKey.includes(input) || input.includes(specialKey)) {
-                majors.forEach((major) => relatedData.add(major));
+                majors.forEach((major) => addMatch(major, "special", term));
                 foundExactMatch = true;
             }
         }
@@ -122,7 +189,7 @@ export function findRelatedMajor(inputs: string[]): string[] {
         for (const [group, collegesList] of Object.entries(relatedColleges)) {
             if (group.includes(input) || input.includes(group.replace("계열", ""))) {
                 collegesList.forEach((college) =>
-                    colleges[college]?.forEach((major) => relatedData.add(major))
+                    colleges[college]?.forEach((major) => addMatch(major, "category", term))
                 );
                 foundExactMatch = true;
             }
@@ -131,7 +198,7 @@ export function findRelatedMajor(inputs: string[]): string[] {
         // Search college
         for (const [collegeName, majors] of Object.entries(colleges)) {
             if (input.includes(collegeName.replace("대학", ""))) {
-                majors.forEach((major) => relatedData.add(major));
+                majors.forEach((major) => addMatch(major, "college", term));
                 foundExactMatch = true;
             }
         }
@@ -142,83 +209,40 @@ export function findRelatedMajor(inputs: string[]): string[] {
                 const normalizedMajor = major.replace(/학과|학부|전공/g, "").toLowerCase();
                 const normalizedInput = input.replace(/학과|학부|전공/g, "").toLowerCase();
 
-                if (
+                if (normalizedMajor === normalizedInput) {
+                    addMatch(major, "major", term);
+                    foundExactMatch = true;
+                } else if (
                     normalizedMajor.startsWith(normalizedInput) ||
                     normalizedInput.startsWith(normalizedMajor)
                 ) {
-                    relatedData.add(major);
+                    addMatch(major, "prefix", term);
                     foundExactMatch = true;
                 }
             }
         }
 
+        // Search aliases
+        for (const [alias, major] of aliases) {
+            if (normalizeTerm(alias) === input) {
+                addMatch(major, "alias", term);
+                foundExactMatch = true;
+            }
+        }
+
         if (!foundExactMatch) {
             const correctedInput = correctMajor(input);
             if (correctedInput !== input) {
-                relatedData.add(correctedInput);
+                addMatch(correctedInput, "fuzzy", term);
+            } else {
+                unmatched.push(term);
             }
         }
     }
 
-    return Array.from(relatedData);
-}
-
-/**
- * Processes and updates qualifications information in the transformed data.
- *
- * The function parses qualifications related information from the provided value and adds it to the
- * transformedData object under the "qualifications" key. If no majors are already set in the transformed data,
- * it updates the "majors" key with the qualifications' major values and finds related majors, storing them in
- * the "systemMajors" key.
- *
- * @param {Record<string, any>} transformedData - The object holding the transformed data that will be updated.
- * @param {string} value - The input string containing qualifications-related data to be processed.
- */
-export function handleQualifications(transformedData: Record<string, any>, value: string): void {
-    transformedData["qualifications"] = parseQualifications(value);
-    if (
-        Array.isArray(transformedData["majors"]) &&
-        transformedData["majors"].length === 0
-    ) {
-        const qualifications = transformedData["qualifications"];
-        if (qualifications && Array.isArray(qualifications.major)) {
-            transformedData["majors"] = findRelatedMajor(qualifications.major);
-        }
-    }
+    return {majors: [...matches.keys()], matches: [...matches.values()], unmatched};
 }
 
-/**
- * Parses qualifications-related information from an input string based on predefined patterns.
- *
- * The function extracts details such as major, recruit count, grade, credit, required competence,
- * and additional information from the input string. Each detail is matched against specific regular
- * expressions to extract the relevant value. The "major" value is further processed using a helper function.
- *
- * @param {string} input - The input string containing qualifications-related data.
- * @returns {object} - An object containing parsed qualification details with keys like "major", "recruitCount",
- *                     "grade", "credit", "competence", and "etc".
- */
-export function parseQualifications(input) {
-    const result = {};
-    const patterns = {
-        major: /전공\s*:\s*([\s\S]*?)(?=\*인원|$)/,
-        recruitCount: /인원\s*:\s*([\s\S]*?)(?=\*학년|$)/,
-        grade: /학년\s*:\s*([\s\S]*?)(?=\*학점\/평점|$)/,
-        credit: /학점\/평점\s*:\s*([\s\S]*?)(?=\*요구 역량|$)/,
-        competence: /요구\s*역량\s*:\s*([\s\S]*?)(?=\*기타사항|$)/,
-        etc: /기타사항\s*:\s*([\s\S]*?)(?=$)/,
-    };
-
-    for (const [key, regex] of Object.entries(patterns)) {
-        const match = input.match(regex);
-        if (match && match[1]) {
-            let value = match[1].trim();
-            if (key === 'major') {
-                value = parseMajors(value);
-            }
-            result[key] = value;
-        }
-    }
-
-    return result;
+function normalizeTerm(term: string): string {
+    return term.replace(/학과|학부|전공|학/g, "").trim();
 }
@@ -0,0 +1,171 @@
+import * as bundledTaxonomy from "./major-taxonomy.json";
+
+export interface Department {
+    name: string;
+    englishName?: string;
+    aliases?: string[];
+}
+
+/**
+ * A college and its departments.
+ *
+ * An `inactive` college (e.g., 의과대학) does not take part in field practice: its departments are not
+ * matched by college, category or department name, only through a group that lists them.
+ */
+export interface College {
+    name: string;
+    englishName?: string;
+    inactive?: boolean;
+    departments: Department[];
+}
+
+/**
+ * A broad field announced by organizations (e.g., "이공계열") and the colleges it covers.
+ */
+export interface CategoryGroup {
+    name: string;
+    colleges: string[];
+}
+
+/**
+ * A subject announced by organizations (e.g., "전산") and the majors it covers.
+ */
+export interface MajorGroup {
+    name: string;
+    majors: string[];
+}
+
+export interface Campus {
+    id: string;
+    name: string;
+    colleges: College[];
+    categories: CategoryGroup[];
+    groups: MajorGroup[];
+}
+
+export interface MajorTaxonomy {
+    version: string;
+    defaultCampus: string;
+    campuses: Campus[];
+}
+
+/**
+ * The lookup tables used for major matching, built from one campus of the taxonomy.
+ */
+export interface MajorIndex {
+    colleges: Record<string, string[]>;
+    categories: Record<string, string[]>;
+    groups: Record<string, string[]>;
+    aliases: Map<string, string>;
+}
+
+const taxonomy = parseMajorTaxonomy(bundledTaxonomy);
+const indexes = new Map<string, MajorIndex>();
+
+/**
+ * The version of the bundled taxonomy, recorded on every transformed posting.
+ */
+export const MAJOR_TAXONOMY_VERSION = taxonomy.version;
+
+/**
+ * Parses and validates a major taxonomy.
+ *
+ * Department names must be unique within a campus, aliases must not collide with a department name
+ * or another alias, categories must reference colleges of the same campus and the default campus
+ * must exist. Every problem is reported at once.
+ *
+ * @param {any} data - The parsed JSON of a taxonomy file.
+ * @returns {MajorTaxonomy} - The validated taxonomy.
+ * @throws {Error} - Throws an error listing every problem of the taxonomy.
+ */
+export function parseMajorTaxonomy(data: any): MajorTaxonomy {
+    const errors: string[] = [];
+    const isName = (value: any) => typeof value === "string" && value.trim().length > 0;
+
+    if (!isName(data?.version)) errors.push("version is required");
+    if (!Array.isArray(data?.campuses) || data.campuses.length === 0) {
+        throw new Error("Invalid major taxonomy: campuses must be a non-empty array");
+    }
+    if (!data.campuses.some((campus) => campus?.id === data.defaultCampus)) {
+        errors.push(`defaultCampus ${JSON.stringify(data.defaultCampus)} is not a campus id`);
+    }
+
+    for (const campus of data.campuses) {
+        const prefix = `campus ${campus?.id ?? "(no id)"}`;
+        const names = new Map<string, string>();
+        const collegeNames = new Set<string>();
+
+        if (!isName(campus?.id)) errors.push(`${prefix}: id is required`);
+        for (const college of campus?.colleges ?? []) {
+            if (!isName(college?.name)) errors.push(`${prefix}: a college has no name`);
+            collegeNames.add(college?.name);
+
+            for (const department of college?.departments ?? []) {
+                if (!isName(department?.name)) {
+                    errors.push(`${prefix}: a department of ${college?.name} has no name`);
+                    continue;
+                }
+                for (const name of [department.name, ...(department.aliases ?? [])]) {
+                    if (names.has(name)) {
+                        errors.push(`${prefix}: "${name}" of ${department.name} is already used by ${names.get(name)}`);
+                    }
+                    names.set(name, department.name);
+                }
+            }
+        }
+
+        for (const category of campus?.categories ?? []) {
+            for (const college of category?.colleges ?? []) {
+                if (!collegeNames.has(college)) {
+                    errors.push(`${prefix}: category ${category.name} references unknown college ${college}`);
+                }
+            }
+        }
+        for (const group of campus?.groups ?? []) {
+            if (!isName(group?.name) || !Array.isArray(group?.majors) || !group.majors.every(isName)) {
+                errors.push(`${prefix}: group ${group?.name ?? "(no name)"} needs a name and a list of majors`);
+            }
+        }
+    }
+
+    if (errors.length > 0) {
+        throw new Error(`Invalid major taxonomy:\n - ${errors.join("\n - ")}`);
+    }
+    return data;
+}
+
+/**
+ * Returns the lookup tables of a campus, building them on first use.
+ *
+ * @param {string} campusId - The campus, defaults to the `defaultCampus` of the taxonomy.
+ * @returns {MajorIndex} - The colleges, categories, groups and aliases of the campus.
+ * @throws {Error} - Throws if the campus does not exist.
+ */
+export function getMajorIndex(campusId: string = taxonomy.defaultCampus): MajorIndex {
+    if (!indexes.has(campusId)) {
+        const campus = taxonomy.campuses.find((item) => item.id === campusId);
+        if (!campus) {
+            throw new Error(`Unknown campus: ${campusId}`);
+        }
+        indexes.set(campusId, buildMajorIndex(campus));
+    }
+    return indexes.get(campusId);
+}
+
+function buildMajorIndex(campus: Campus): MajorIndex {
+    const active = campus.colleges.filter((college) => !college.inactive);
+    const aliases = new Map<string, string>();
+
+    for (const department of active.flatMap((college) => college.departments)) {
+        for (const alias of department.aliases ?? []) {
+            aliases.set(alias, department.name);
+        }
+    }
+
+    return {
+        colleges: Object.fromEntries(active.map((college) => [college.name, college.departments.map((department) => department.name)])),
+        categories: Object.fromEntries(campus.categories.map((category) => [category.name, category.colleges])),
+        groups: Object.fromEntries(campus.groups.map((group) => [group.name, group.majors])),
+        aliases,
+    };
+}
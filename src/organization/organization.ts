@@ -0,0 +1,261 @@
+import {createHash} from "node:crypto";
+import {Location} from "../location/location";
+
+export const ORGANIZATION_TYPES = [
+    "COMPANY",
+    "RESEARCH_INSTITUTE",
+    "PUBLIC_INSTITUTION",
+    "ASSOCIATION",
+    "INTERNATIONAL_ORGANIZATION",
+] as const;
+
+export type OrganizationType = typeof ORGANIZATION_TYPES[number];
+
+export const ORGANIZATION_SIZES = ["LARGE", "MIDSIZE", "SMALL", "PUBLIC", "OTHER"] as const;
+
+export type OrganizationSize = typeof ORGANIZATION_SIZES[number];
+
+export const STOCK_MARKETS = ["KOSPI", "KOSDAQ", "KONEX"] as const;
+
+export type StockMarket = typeof STOCK_MARKETS[number];
+
+const ORGANIZATION_TYPE_NAMES: Record<string, OrganizationType> = {
+    "기업": "COMPANY",
+    "연구기관": "RESEARCH_INSTITUTE",
+    "공공기관": "PUBLIC_INSTITUTION",
+    "공공기관/비영리단체": "PUBLIC_INSTITUTION",
+    "비영리단체": "ASSOCIATION",
+    "협회/단체": "ASSOCIATION",
+    "국제기구": "INTERNATIONAL_ORGANIZATION",
+};
+
+const ORGANIZATION_SIZE_NAMES: Record<string, OrganizationSize> = {
+    "대기업": "LARGE",
+    "중견기업": "MIDSIZE",
+    "중소기업": "SMALL",
+    "공공기관": "PUBLIC",
+    "협회,단체,기타": "OTHER",
+};
+
+const STOCK_MARKET_NAMES: Record<string, StockMarket> = {
+    "코스피": "KOSPI",
+    "유가증권": "KOSPI",
+    "코스닥": "KOSDAQ",
+    "코넥스": "KONEX",
+};
+
+/**
+ * An organization derived from its postings, stored once however many postings and semesters mention it.
+ *
+ * The metadata is the latest seen in a crawl. `postingCounts` holds the number of valid postings per
+ * program (e.g., {"2024-겨울학기": 3}), as of the latest crawl of that program.
+ */
+export interface Organization {
+    id: string;
+    name: string;
+    normalizedName: string;
+    organizationType?: OrganizationType;
+    organizationSize?: OrganizationSize;
+    employeeCount?: number;
+    isListed?: boolean;
+    market?: StockMarket;
+    homepage?: string;
+    location?: Location;
+    postingCounts: Record<string, number>;
+    firstSeenAt?: string;
+    lastSeenAt?: string;
+}
+
+const ORGANIZATION_METADATA_FIELDS = [
+    "organizationType",
+    "organizationSize",
+    "employeeCount",
+    "isListed",
+    "market",
+    "homepage",
+    "location",
+] as const;
+
+const LEGAL_FORMS = /\(\s*(?:주|유|재|사|합|株)\s*\)|주식회사|유한책임회사|유한회사|재단법인|사단법인|합자회사|합명회사|\bco\.?,?\s*ltd\b\.?|\binc\b\.?|\bcorp(?:oration)?\b\.?/gi;
+
+const HOMEPAGE_PLACEHOLDERS = ["클릭", "미입력", "없음", "해당없음", "N/A"];
+
+/**
+ * Splits an organization name written as "기관명 / 부서" into the organization and its department.
+ *
+ * @param {string} value - The input string representing the organization (e.g., "미리디 / 피플팀").
+ * @returns {{name: string, department?: string}} - The organization name and, if present, the department.
+ */
+export function parseOrganizationName(value: string): { name: string; department?: string } {
+    const [name, ...rest] = value.split("/");
+    const department = rest.join("/").trim();
+    return department ? {name: name.trim(), department} : {name: name.trim()};
+}
+
+/**
+ * Sets the organization name and id of a posting, keeping a "/ 부서" suffix as the department.
+ *
+ * The suffix is only used when the posting has no department of its own; the dedicated "부서" field
+ * always wins.
+ *
+ * @param {Record<string, any>} data - The posting being transformed.
+ * @param {string} value - The input string representing the organization.
+ * @param {boolean} hasDepartment - Whether the raw posting has its own department.
+ */
+export function handleOrganizationName(data: Record<string, any>, value: string, hasDepartment: boolean): void {
+    const {name, department} = parseOrganizationName(value);
+    data["organizationName"] = name;
+    data["organizationId"] = getOrganizationId(name);
+    if (department && !hasDepartment) {
+        data["department"] = department;
+    }
+}
+
+/**
+ * Parses an employee count such as "150명", "1,173명" or "약 50명".
+ *
+ * @param {string} value - The input string representing the number of employees.
+ * @returns {number | undefined} - The number of employees, or undefined if the text holds no number.
+ */
+export function parseEmployeeCount(value: string): number | undefined {
+    const match = value.match(/\d[\d,]*/);
+    return match ? parseInt(match[0].replace(/,/g, ""), 10) : undefined;
+}
+
+/**
+ * Parses the listing status of an organization ("코스피", "코스닥", "비상장").
+ *
+ * @param {string} value - The input string representing the listing status.
+ * @returns {{isListed: boolean, market?: StockMarket} | undefined} - Whether the organization is listed
+ *          and on which market, or undefined if the status is not recognized.
+ */
+export function parseListing(value: string): { isListed: boolean; market?: StockMarket } | undefined {
+    const text = value.replace(/\s+/g, "");
+    if (/비상장|미상장/.test(text)) {
+        return {isListed: false};
+    }
+    const market = Object.entries(STOCK_MARKET_NAMES).find(([name]) => text.includes(name))?.[1]
+        ?? STOCK_MARKETS.find((name) => text.toUpperCase().includes(name));
+    return market ? {isListed: true, market} : undefined;
+}
+
+/**
+ * Normalizes an organization homepage, dropping placeholders such as "클릭" or "미입력".
+ *
+ * A bare domain gets an "http://" scheme so it can be linked; any other text is dropped as well.
+ *
+ * @param {string} value - The input string representing the homepage.
+ * @returns {string | undefined} - The homepage URL, or undefined if the value is not a URL.
+ */
+export function parseHomepage(value: string): string | undefined {
+    const text = value.trim();
+    if (HOMEPAGE_PLACEHOLDERS.includes(text)) return undefined;
+    if (/^https?:\/\/\S+$/i.test(text)) return text;
+    if (/^[\w-]+(\.[\w-]+)+(\/\S*)?$/.test(text)) return `http://${text}`;
+    return undefined;
+}
+
+/**
+ * Maps the crawled organization category (실습기관분류) to an {@link OrganizationType}.
+ *
+ * @param {string} value - The crawled category (e.g., "기업", "공공기관/비영리단체").
+ * @returns {OrganizationType | undefined} - The organization type, or undefined if the category is unknown.
+ */
+export function parseOrganizationType(value: string): OrganizationType | undefined {
+    return ORGANIZATION_TYPE_NAMES[value.replace(/\s+/g, "")];
+}
+
+/**
+ * Maps the crawled organization size (기관규모) to an {@link OrganizationSize}.
+ *
+ * @param {string} value - The crawled size (e.g., "중소기업", "협회,단체,기타").
+ * @returns {OrganizationSize | undefined} - The organization size, or undefined if the size is unknown.
+ */
+export function parseOrganizationSize(value: string): OrganizationSize | undefined {
+    return ORGANIZATION_SIZE_NAMES[value.replace(/\s+/g, "")];
+}
+
+/**
+ * Normalizes an organization name so that spellings of the same organization compare equal.
+ *
+ * Compatibility characters are folded first (so "㈜" reads as "(주)"), then legal forms such as "(주)",
+ * "주식회사", "재단법인" or "Co., Ltd." are removed, along with all whitespace, and the name is lowercased.
+ *
+ * @param {string} name - The organization name (e.g., "(주)로보티즈", "㈜ 로보티즈").
+ * @returns {string} - The normalized name (e.g., "로보티즈").
+ */
+export function normalizeOrganizationName(name: string): string {
+    return name.normalize("NFKC").replace(LEGAL_FORMS, "").replace(/[\s,]+/g, "").toLowerCase();
+}
+
+/**
+ * Returns the stable id of an organization, derived from its normalized name.
+ *
+ * @param {string} name - The organization name as crawled.
+ * @returns {string} - The id (e.g., "org-1f0e3dad99908345").
+ */
+export function getOrganizationId(name: string): string {
+    return `org-${createHash("sha256").update(normalizeOrganizationName(name)).digest("hex").slice(0, 16)}`;
+}
+
+/**
+ * Adds postings to the organizations of a crawl, keyed by organization id.
+ *
+ * Metadata of later postings overrides earlier ones field by field, and every posting with a year and
+ * semester is counted for its program.
+ *
+ * @param {Map<string, Organization>} organizations - The organizations collected so far, updated in place.
+ * @param {Record<string, any>[]} postings - Transformed postings with an `organizationId`.
+ */
+export function collectOrganizations(organizations: Map<string, Organization>, postings: Record<string, any>[]): void {
+    for (const posting of postings) {
+        if (!posting.organizationId) continue;
+
+        const organization: Organization = organizations.get(posting.organizationId) ?? {
+            id: posting.organizationId,
+            name: posting.organizationName,
+            normalizedName: normalizeOrganizationName(posting.organizationName),
+            postingCounts: {},
+        };
+        organization.name = posting.organizationName;
+        for (const field of ORGANIZATION_METADATA_FIELDS) {
+            if (posting[field] !== undefined) {
+                (organization as Record<string, any>)[field] = posting[field];
+            }
+        }
+        if (posting.year !== undefined && posting.semester !== undefined) {
+            const program = `${posting.year}-${posting.semester}`;
+            organization.postingCounts[program] = (organization.postingCounts[program] ?? 0) + 1;
+        }
+        organizations.set(organization.id, organization);
+    }
+}
+
+/**
+ * Merges an organization collected from a crawl into its stored version.
+ *
+ * A crawl at least as recent as the stored one replaces the metadata and the counts of the programs it
+ * covers. An older crawl (e.g., during a backfill) only fills in programs the stored version does not
+ * have yet, so it never rolls the organization back.
+ *
+ * @param {Organization | undefined} stored - The stored organization, if any.
+ * @param {Organization} crawled - The organization collected from the crawl.
+ * @param {string} seenAt - The ISO timestamp of the crawl.
+ * @returns {Organization} - The organization to store.
+ */
+export function mergeOrganization(stored: Organization | undefined, crawled: Organization, seenAt: string): Organization {
+    if (!stored) {
+        return {...crawled, firstSeenAt: seenAt, lastSeenAt: seenAt};
+    }
+
+    const firstSeenAt = !stored.firstSeenAt || seenAt < stored.firstSeenAt ? seenAt : stored.firstSeenAt;
+    if (stored.lastSeenAt && seenAt < stored.lastSeenAt) {
+        return {...stored, firstSeenAt, postingCounts: {...crawled.postingCounts, ...stored.postingCounts}};
+    }
+    return {
+        ...crawled,
+        postingCounts: {...stored.postingCounts, ...crawled.postingCounts},
+        firstSeenAt,
+        lastSeenAt: seenAt,
+    };
+}
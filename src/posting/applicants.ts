@@ -0,0 +1,59 @@
+/**
+ * A number of applicants observed by a crawl.
+ */
+export interface ApplicantSample {
+    crawledAt: string;
+    applicantCount: number;
+}
+
+/**
+ * The most samples kept per posting; older ones are dropped first.
+ */
+export const MAX_APPLICANT_SAMPLES = 200;
+
+/**
+ * Parses the number of applicants of a posting (e.g., "12", "3명").
+ *
+ * @param {string} value - The raw `지원인원` value.
+ * @returns {number | undefined} - The number of applicants, or undefined if the value is not a count.
+ */
+export function parseApplicantCount(value: string): number | undefined {
+    const match = value.trim().match(/^(\d+)\s*명?$/);
+    return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Computes the number of applicants per recruited student.
+ *
+ * @param {number | undefined} applicantCount - The number of applicants.
+ * @param {number | undefined} recruitCount - The number of students recruited.
+ * @returns {number | undefined} - The rate rounded to two decimals, or undefined if either count is
+ * missing or nobody is recruited.
+ */
+export function computeCompetitionRate(applicantCount?: number, recruitCount?: number): number | undefined {
+    if (applicantCount === undefined || recruitCount === undefined || recruitCount === 0) {
+        return undefined;
+    }
+    return Math.round(applicantCount / recruitCount * 100) / 100;
+}
+
+/**
+ * Adds a sample to the applicant series of a posting.
+ *
+ * The series only records changes: it is kept in `crawledAt` order and a sample with the same count as
+ * the one before it is dropped, so crawls that see the same number of applicants do not grow it. A
+ * sample of a crawl already in the series replaces it, which lets a backfill replay crawls out of order.
+ * Only the latest {@link MAX_APPLICANT_SAMPLES} samples are kept.
+ *
+ * @param {ApplicantSample[]} series - The stored series, oldest first.
+ * @param {ApplicantSample} sample - The sample of the current crawl.
+ * @returns {ApplicantSample[]} - The new series, oldest first.
+ */
+export function appendApplicantSample(series: ApplicantSample[], sample: ApplicantSample): ApplicantSample[] {
+    const samples = [...series.filter(({crawledAt}) => crawledAt !== sample.crawledAt), sample]
+        .sort((a, b) => a.crawledAt.localeCompare(b.crawledAt));
+
+    return samples
+        .filter((current, i) => i === 0 || current.applicantCount !== samples[i - 1].applicantCount)
+        .slice(-MAX_APPLICANT_SAMPLES);
+}
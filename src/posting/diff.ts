@@ -0,0 +1,49 @@
+export interface FieldChange {
+    field: string;
+    previous: any;
+    current: any;
+}
+
+/**
+ * Computes the field-level differences between two versions of a posting.
+ *
+ * Nested objects are compared key by key and reported with dotted paths (e.g., "interviewInfo.finalResultDate").
+ * Arrays and primitive values are compared as a whole. A field that exists in only one version is reported
+ * with `undefined` on the other side.
+ *
+ * @param {Record<string, any>} previous - The previous version of the posting.
+ * @param {Record<string, any>} current - The current version of the posting.
+ * @param {string[]} ignoredFields - Top-level fields to leave out of the comparison.
+ * @returns {FieldChange[]} - The changed fields, sorted by path.
+ */
+export function diffPostings(
+    previous: Record<string, any>,
+    current: Record<string, any>,
+    ignoredFields: string[] = [],
+): FieldChange[] {
+    const changes: FieldChange[] = [];
+    collectChanges(previous ?? {}, current ?? {}, "", changes, ignoredFields);
+    return changes.sort((a, b) => a.field.localeCompare(b.field));
+}
+
+function collectChanges(previous: any, current: any, prefix: string, changes: FieldChange[], ignoredFields: string[]) {
+    const keys = new Set([...Object.keys(previous), ...Object.keys(current)]);
+
+    for (const key of keys) {
+        if (!prefix && ignoredFields.includes(key)) continue;
+
+        const field = prefix ? `${prefix}.${key}` : key;
+        const before = previous[key];
+        const after = current[key];
+
+        if (isPlainObject(before) && isPlainObject(after)) {
+            collectChanges(before, after, field, changes, ignoredFields);
+        } else if (JSON.stringify(before) !== JSON.stringify(after)) {
+            changes.push({field, previous: before, current: after});
+        }
+    }
+}
+
+function isPlainObject(value: any): boolean {
+    return value !== null && typeof value === "object" && !Array.isArray(value);
+}
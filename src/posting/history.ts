@@ -0,0 +1,75 @@
+import {FieldChange} from "./diff";
+import {stableStringify} from "../util/util";
+
+/**
+ * A version of a posting as recorded in the history table.
+ *
+ * Version 1 is the first time the ETL stored the posting and lists every field as a change from
+ * `undefined`; each later version lists only the top-level fields that changed, with their whole previous
+ * and current value. A field that was removed has no `current`. `sourceKey` is the S3 key of the crawl
+ * that produced the version and `crawledAt` its timestamp.
+ */
+export interface PostingVersion {
+    postingId: number;
+    version: number;
+    changes: FieldChange[];
+    sourceKey: string;
+    crawledAt: string;
+}
+
+/**
+ * Computes the top-level fields that differ between the stored and the new version of a posting.
+ *
+ * Values are compared by content, so objects read back from DynamoDB with their keys in a different
+ * order are not reported as changed.
+ *
+ * @param {Record<string, any> | undefined} previous - The stored posting, or undefined for a new posting.
+ * @param {Record<string, any>} current - The posting about to be stored.
+ * @param {string[]} ignoredFields - Fields to leave out of the comparison (e.g., bookkeeping attributes).
+ * @returns {FieldChange[]} - The changed fields, sorted by name.
+ */
+export function diffFields(
+    previous: Record<string, any> | undefined,
+    current: Record<string, any>,
+    ignoredFields: string[] = [],
+): FieldChange[] {
+    const before = previous ?? {};
+    const fields = new Set([...Object.keys(before), ...Object.keys(current)]);
+
+    return [...fields]
+        .filter((field) => !ignoredFields.includes(field))
+        .filter((field) => stableStringify(before[field]) !== stableStringify(current[field]))
+        .sort()
+        .map((field) => ({field, previous: before[field], current: current[field]}));
+}
+
+/**
+ * Rebuilds a posting as it was stored after a given crawl by replaying its versions.
+ *
+ * Versions are applied in version order up to the last one crawled at or before `asOf`. Postings stored
+ * before history was recorded start at the version written by the first crawl after that.
+ *
+ * @param {PostingVersion[]} versions - The recorded versions of the posting, in any order.
+ * @param {string} asOf - An ISO timestamp; versions crawled after it are ignored.
+ * @returns {Record<string, any> | null} - The posting as of that time, or null if it did not exist yet.
+ */
+export function rebuildPosting(versions: PostingVersion[], asOf: string): Record<string, any> | null {
+    const applicable = versions
+        .filter((version) => version.crawledAt <= asOf)
+        .sort((a, b) => a.version - b.version);
+    if (applicable.length === 0) {
+        return null;
+    }
+
+    const posting: Record<string, any> = {};
+    for (const {changes} of applicable) {
+        for (const change of changes) {
+            if (change.current === undefined) {
+                delete posting[change.field];
+            } else {
+                posting[change.field] = change.current;
+            }
+        }
+    }
+    return posting;
+}
@@ -0,0 +1,287 @@
+import {InternshipDetails} from "../internship/details";
+import {InterviewSchedule} from "../internship/interview";
+import {Location} from "../location/location";
+import {MajorMatch} from "../major/major";
+import {
+    ORGANIZATION_SIZES,
+    ORGANIZATION_TYPES,
+    OrganizationSize,
+    OrganizationType,
+    STOCK_MARKETS,
+    StockMarket
+} from "../organization/organization";
+import {Qualifications} from "../qualification/qualification";
+import {WEEKDAYS, WorkSchedule} from "../work/work";
+import {DateRange, isIsoDate} from "../util/date";
+
+/**
+ * Version of the {@link RecruitPosting} schema produced by `transformData`.
+ *
+ * Bump this whenever a field is added, removed or changes shape so consumers of the table can tell
+ * records written by older versions of the ETL apart.
+ */
+export const RECRUIT_POSTING_SCHEMA_VERSION = 14;
+
+/**
+ * Ways the crawled status of a posting can disagree with its deadline, see `deriveStatus`.
+ */
+export const STATUS_CONFLICTS = ["OPEN_AFTER_DEADLINE", "CLOSED_BEFORE_DEADLINE"] as const;
+
+export type StatusConflict = typeof STATUS_CONFLICTS[number];
+
+export interface SupportAmount {
+    period: "월" | "주";
+    amount: number;
+}
+
+/**
+ * A single recruit posting as written to DynamoDB.
+ *
+ * Fields not listed here (e.g. free-text descriptions the crawler may add later) are carried over as-is,
+ * which is why the type keeps an index signature.
+ */
+export interface RecruitPosting {
+    schemaVersion: number;
+    taxonomyVersion: string;
+    id: number;
+    organizationName: string;
+    organizationId?: string;
+    organizationType?: OrganizationType;
+    department?: string;
+    status: boolean;
+    statusConflict?: StatusConflict;
+    newRecruitment?: string;
+    homepage?: string;
+    location?: Location;
+    applicationDeadline: string;
+    deadlineTime?: string;
+    applicationDeadlineAt?: string;
+    startDate: string;
+    endDate: string;
+    durationDays?: number;
+    durationWeeks?: number;
+    organizationSupportAmount: SupportAmount;
+    type?: string;
+    announcedMajors?: string;
+    majors: string[];
+    majorMatches?: MajorMatch[];
+    unmatchedMajorTerms?: string[];
+    recruitCount?: number;
+    applicantCount?: number;
+    competitionRate?: number;
+    year?: number;
+    semester?: string;
+    programType?: string;
+    programPeriod?: DateRange;
+    employeeCount?: number;
+    organizationSize?: OrganizationSize;
+    isListed?: boolean;
+    market?: StockMarket;
+    selectionInfo?: number[];
+    qualifications?: Qualifications;
+    internshipDetails?: InternshipDetails;
+    interviewInfo?: InterviewSchedule;
+    workSchedule?: WorkSchedule;
+    appliedRules?: string[];
+    warnings?: FieldError[];
+
+    [key: string]: any;
+}
+
+export interface FieldError {
+    field: string;
+    message: string;
+    value?: any;
+}
+
+const TIME_PATTERN = /^(([01]\d|2[0-3]):[0-5]\d|24:00)$/;
+const SEOUL_TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T([01]\d|2[0-3]):[0-5]\d:[0-5]\d\+09:00$/;
+
+/**
+ * Validates a transformed posting against the {@link RecruitPosting} schema.
+ *
+ * The function checks required fields, ISO date and HH:mm time formats, the shape of
+ * `organizationSupportAmount` and the element types of array fields. It does not stop at the first
+ * problem; every invalid field is reported so a quarantined record can be fixed in one pass.
+ *
+ * @param {Record<string, any>} posting - The transformed posting to be validated.
+ * @returns {FieldError[]} - A list of per-field errors, empty if the posting is valid.
+ */
+export function validateRecruitPosting(posting: Record<string, any>): FieldError[] {
+    const errors: FieldError[] = [];
+    const fail = (field: string, message: string) => errors.push({field, message, value: posting[field]});
+
+    if (posting.schemaVersion !== RECRUIT_POSTING_SCHEMA_VERSION) {
+        fail("schemaVersion", `must be ${RECRUIT_POSTING_SCHEMA_VERSION}`);
+    }
+    if (typeof posting.taxonomyVersion !== "string" || posting.taxonomyVersion.length === 0) {
+        fail("taxonomyVersion", "must be a non-empty string");
+    }
+    if (!Number.isInteger(posting.id) || posting.id <= 0) {
+        fail("id", "must be a positive integer");
+    }
+    if (typeof posting.organizationName !== "string" || posting.organizationName.length === 0) {
+        fail("organizationName", "is required");
+    }
+    if (typeof posting.status !== "boolean") {
+        fail("status", "must be a boolean");
+    }
+
+    for (const field of ["applicationDeadline", "startDate", "endDate"]) {
+        if (!isIsoDate(posting[field])) {
+            fail(field, "must be a date in YYYY-MM-DD format");
+        }
+    }
+    if (isIsoDate(posting.startDate) && isIsoDate(posting.endDate) && posting.startDate > posting.endDate) {
+        fail("endDate", "must not be before startDate");
+    }
+
+    if (posting.deadlineTime !== undefined && !isTime(posting.deadlineTime)) {
+        fail("deadlineTime", "must be a time in HH:mm format");
+    }
+    if (posting.applicationDeadlineAt !== undefined &&
+        !(SEOUL_TIMESTAMP_PATTERN.test(posting.applicationDeadlineAt) && posting.applicationDeadlineAt.startsWith(posting.applicationDeadline))) {
+        fail("applicationDeadlineAt", "must be an ISO timestamp in +09:00 on the applicationDeadline");
+    }
+    if (posting.statusConflict !== undefined && !STATUS_CONFLICTS.includes(posting.statusConflict)) {
+        fail("statusConflict", `must be one of ${STATUS_CONFLICTS.join(", ")}`);
+    }
+
+    const supportAmount = posting.organizationSupportAmount;
+    if (!supportAmount || typeof supportAmount !== "object") {
+        fail("organizationSupportAmount", "is required");
+    } else {
+        if (!["월", "주"].includes(supportAmount.period)) {
+            fail("organizationSupportAmount", "period must be '월' or '주'");
+        }
+        if (!Number.isInteger(supportAmount.amount) || supportAmount.amount < 0) {
+            fail("organizationSupportAmount", "amount must be a non-negative integer");
+        }
+    }
+
+    if (!Array.isArray(posting.majors) || posting.majors.some((major) => typeof major !== "string")) {
+        fail("majors", "must be an array of strings");
+    }
+    if (posting.organizationId !== undefined && !/^org-[0-9a-f]{16}$/.test(posting.organizationId)) {
+        fail("organizationId", "must be an org- id");
+    }
+    if (posting.organizationType !== undefined && !ORGANIZATION_TYPES.includes(posting.organizationType)) {
+        fail("organizationType", `must be one of ${ORGANIZATION_TYPES.join(", ")}`);
+    }
+    if (posting.organizationSize !== undefined && !ORGANIZATION_SIZES.includes(posting.organizationSize)) {
+        fail("organizationSize", `must be one of ${ORGANIZATION_SIZES.join(", ")}`);
+    }
+    if (posting.market !== undefined && !STOCK_MARKETS.includes(posting.market)) {
+        fail("market", `must be one of ${STOCK_MARKETS.join(", ")}`);
+    }
+    if (posting.isListed !== undefined && typeof posting.isListed !== "boolean") {
+        fail("isListed", "must be a boolean");
+    }
+    if (posting.employeeCount !== undefined && !(Number.isInteger(posting.employeeCount) && posting.employeeCount >= 0)) {
+        fail("employeeCount", "must be a non-negative integer");
+    }
+    for (const field of ["recruitCount", "applicantCount"]) {
+        if (posting[field] !== undefined && !(Number.isInteger(posting[field]) && posting[field] >= 0)) {
+            fail(field, "must be a non-negative integer");
+        }
+    }
+    if (posting.competitionRate !== undefined && !(typeof posting.competitionRate === "number" && posting.competitionRate >= 0)) {
+        fail("competitionRate", "must be a non-negative number");
+    }
+    const location = posting.location;
+    if (location !== undefined &&
+        (typeof location?.raw !== "string" || !(location.regionCode === null || /^\d{2}(\d{3})?$/.test(location.regionCode)))) {
+        fail("location", "must have the raw text and a two- or five-digit region code");
+    }
+    const workSchedule = posting.workSchedule;
+    if (workSchedule !== undefined) {
+        if (!Array.isArray(workSchedule.days) || workSchedule.days.some((day) => !WEEKDAYS.includes(day))) {
+            fail("workSchedule", `days must be an array of ${WEEKDAYS.join(", ")}`);
+        }
+        if ([workSchedule.startTime, workSchedule.endTime].some((time) => time !== undefined && !isTime(time))) {
+            fail("workSchedule", "times must be in HH:mm format");
+        }
+        if (workSchedule.weeklyHours !== undefined &&
+            !(typeof workSchedule.weeklyHours === "number" && workSchedule.weeklyHours >= 0 && workSchedule.weeklyHours <= 168)) {
+            fail("workSchedule", "weeklyHours must be a number between 0 and 168");
+        }
+    }
+    if (posting.selectionInfo !== undefined &&
+        (!Array.isArray(posting.selectionInfo) || posting.selectionInfo.some((grade) => ![1, 2, 3, 4].includes(grade)))) {
+        fail("selectionInfo", "must be an array of grades between 1 and 4");
+    }
+    const qualifications = posting.qualifications;
+    if (qualifications !== undefined) {
+        if (qualifications.recruitCount !== undefined &&
+            !(Number.isInteger(qualifications.recruitCount) && qualifications.recruitCount >= 0)) {
+            fail("qualifications", "recruitCount must be a non-negative integer");
+        }
+        if (qualifications.grade !== undefined &&
+            (!Array.isArray(qualifications.grade) || qualifications.grade.some((grade) => ![1, 2, 3, 4].includes(grade)))) {
+            fail("qualifications", "grade must be an array of grades between 1 and 4");
+        }
+        const credit = qualifications.credit;
+        if (credit != null && !(typeof credit.minGpa === "number" && typeof credit.scale === "number" &&
+            credit.minGpa > 0 && credit.minGpa <= credit.scale)) {
+            fail("qualifications", "credit must be null or a minGpa within its scale");
+        }
+        if (["competence", "etc", "skills"].some((field) => qualifications[field] !== undefined &&
+            (!Array.isArray(qualifications[field]) || qualifications[field].some((item) => typeof item !== "string")))) {
+            fail("qualifications", "competence, etc and skills must be arrays of strings");
+        }
+    }
+    const internshipDetails = posting.internshipDetails;
+    if (internshipDetails !== undefined) {
+        if (!(typeof internshipDetails.coverage === "number" && internshipDetails.coverage >= 0 && internshipDetails.coverage <= 1)) {
+            fail("internshipDetails", "coverage must be a number between 0 and 1");
+        }
+        if (internshipDetails.weeklyPlan !== undefined && (!Array.isArray(internshipDetails.weeklyPlan) ||
+            internshipDetails.weeklyPlan.some(({weeks}) => !Array.isArray(weeks) || !weeks.every(Number.isInteger) || weeks[0] > weeks[1]))) {
+            fail("internshipDetails", "weeklyPlan weeks must be an increasing [from, to] pair of integers");
+        }
+    }
+    const programPeriod = posting.programPeriod;
+    if (programPeriod !== undefined) {
+        if (!isIsoDate(programPeriod.start) || !isIsoDate(programPeriod.end)) {
+            fail("programPeriod", "dates must be in YYYY-MM-DD format");
+        } else if (programPeriod.start > programPeriod.end) {
+            fail("programPeriod", "end must not be before start");
+        }
+    }
+    if (posting.year !== undefined && !Number.isInteger(posting.year)) {
+        fail("year", "must be an integer");
+    }
+
+    const interviewInfo = posting.interviewInfo;
+    if (interviewInfo !== undefined) {
+        const dates = [
+            interviewInfo.applicationPeriod?.start,
+            interviewInfo.applicationPeriod?.end,
+            interviewInfo.documentResultDate,
+            interviewInfo.interviewDates?.start,
+            interviewInfo.interviewDates?.end,
+            interviewInfo.finalResultDate,
+        ];
+        if (dates.some((date) => date != null && !isIsoDate(date))) {
+            fail("interviewInfo", "schedule dates must be in YYYY-MM-DD format");
+        }
+    }
+
+    return errors;
+}
+
+function isTime(value: any): boolean {
+    return typeof value === "string" && TIME_PATTERN.test(value);
+}
+
+/**
+ * Records a problem with a posting that does not make it invalid (e.g., an unknown location).
+ *
+ * Warnings are kept on the posting in `warnings`, so they are stored and indexed with it.
+ *
+ * @param {Record<string, any>} posting - The posting being transformed.
+ * @param {FieldError} warning - The field, what is wrong with it and its value.
+ */
+export function addWarning(posting: Record<string, any>, warning: FieldError): void {
+    posting["warnings"] = [...(posting["warnings"] ?? []), warning];
+}
@@ -0,0 +1,63 @@
+import {findListedPostingIds, markPostingsRemoved, RemovalSummary} from "../aws/dynamo";
+import {PostingRef} from "../sink/sink";
+
+/**
+ * Finds the stored ids that are missing from a crawl.
+ *
+ * @param {number[]} storedIds - The ids of postings currently listed in the table.
+ * @param {number[]} crawledIds - The ids of postings present in the new crawl.
+ * @returns {number[]} - The stored ids that no longer appear in the crawl.
+ */
+export function findRemovedIds(storedIds: number[], crawledIds: number[]): number[] {
+    const crawled = new Set(crawledIds);
+    return storedIds.filter((id) => !crawled.has(id));
+}
+
+/**
+ * Closes postings that disappeared between crawls.
+ *
+ * The crawled postings are grouped by the `year` and `semester` set by `handleInternshipName`. For each
+ * group, the ids listed in the table for the same program are compared with the crawled ids, and the
+ * missing postings are marked removed instead of being deleted. Postings without a year or semester
+ * (e.g., ones that failed to transform) cannot be attributed to a program, but their ids still protect
+ * the stored postings from being marked removed. Postings deleted from the table in the meantime are
+ * skipped.
+ *
+ * @param {PostingRef[]} postings - Every posting of the crawl, including quarantined and failed ones.
+ * @param {string} sourceKey - The S3 key of the crawl, recorded in the removal reason.
+ * @param {string} removedAt - The ISO timestamp of the crawl.
+ * @returns {Promise<RemovalSummary>} - The number of postings that were marked removed and skipped.
+ */
+export async function reconcileRemovedPostings(
+    postings: PostingRef[],
+    sourceKey: string,
+    removedAt: string,
+): Promise<RemovalSummary> {
+    const groups = new Map<string, { year: number; semester: string }>();
+    const crawledIds = postings.map((posting) => posting.id);
+
+    for (const posting of postings) {
+        if (posting.year === undefined || posting.semester === undefined) {
+            continue;
+        }
+        const groupKey = `${posting.year}|${posting.semester}`;
+        if (!groups.has(groupKey)) {
+            groups.set(groupKey, {year: posting.year, semester: posting.semester});
+        }
+    }
+
+    const summary: RemovalSummary = {removed: 0, skipped: 0};
+    for (const {year, semester} of groups.values()) {
+        const storedIds = await findListedPostingIds(year, semester);
+        const removedIds = findRemovedIds(storedIds, crawledIds);
+
+        if (removedIds.length > 0) {
+            console.log(`Marking ${removedIds.length} posting(s) removed for ${year} ${semester}: ${removedIds.join(", ")}`);
+            const {removed, skipped} = await markPostingsRemoved(removedIds, `Not present in crawl ${sourceKey}`, removedAt, sourceKey);
+            summary.removed += removed;
+            summary.skipped += skipped;
+        }
+    }
+
+    return summary;
+}
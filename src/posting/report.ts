@@ -0,0 +1,134 @@
+import {SinkResult} from "../sink/sink";
+import {RecruitPosting} from "./posting";
+
+/**
+ * Thrown by `transformData` when a single field of a raw posting cannot be transformed.
+ *
+ * It keeps the output field name and the raw value so the failure can be reported per record
+ * instead of aborting the whole crawl object.
+ */
+export class TransformError extends Error {
+    constructor(readonly field: string, readonly value: any, cause: unknown) {
+        super(`Failed to transform ${field}: ${cause instanceof Error ? cause.message : String(cause)}`);
+        this.name = "TransformError";
+    }
+}
+
+export interface RecordFailure {
+    id?: number;
+    field?: string;
+    error: string;
+    value?: any;
+}
+
+export interface UnmatchedMajorTerm {
+    term: string;
+    count: number;
+    postingIds: number[];
+}
+
+export interface ProcessingReport {
+    sourceBucket: string;
+    sourceKey: string;
+    startedAt: string;
+    finishedAt: string;
+    durationMs: number;
+    total: number;
+    succeeded: number;
+    quarantined: number;
+    failed: number;
+    failureRatio: number;
+    failures: RecordFailure[];
+    unmatchedMajorTerms: UnmatchedMajorTerm[];
+    sinks: { sink: string; written: number; failedIn?: string; error?: string }[];
+}
+
+/**
+ * Converts an error thrown while transforming a raw posting into a report entry.
+ *
+ * @param {Record<string, any>} raw - The raw posting that failed.
+ * @param {unknown} error - The error thrown by `transformData`.
+ * @returns {RecordFailure} - The failure with the posting id and, if known, the field and raw value.
+ */
+export function toRecordFailure(raw: Record<string, any>, error: unknown): RecordFailure {
+    const id = parseInt(raw?.id);
+    const failure: RecordFailure = {
+        id: Number.isNaN(id) ? undefined : id,
+        error: error instanceof Error ? error.message : String(error),
+    };
+
+    if (error instanceof TransformError) {
+        failure.field = error.field;
+        failure.value = error.value;
+    }
+    return failure;
+}
+
+/**
+ * Builds the processing report of a single crawl object.
+ *
+ * @param {object} run - The counts, failures and transformed postings collected while processing the object.
+ * @returns {ProcessingReport} - The report, with timing and the failure ratio filled in.
+ */
+export function buildProcessingReport(run: {
+    bucket: string;
+    key: string;
+    startedAt: Date;
+    finishedAt?: Date;
+    total: number;
+    quarantined: number;
+    failures: RecordFailure[];
+    postings: Pick<RecruitPosting, "id" | "unmatchedMajorTerms">[];
+    sinkResults: SinkResult[];
+}): ProcessingReport {
+    const finishedAt = run.finishedAt ?? new Date();
+    const failed = run.failures.length;
+
+    return {
+        sourceBucket: run.bucket,
+        sourceKey: run.key,
+        startedAt: run.startedAt.toISOString(),
+        finishedAt: finishedAt.toISOString(),
+        durationMs: finishedAt.getTime() - run.startedAt.getTime(),
+        total: run.total,
+        succeeded: run.total - failed - run.quarantined,
+        quarantined: run.quarantined,
+        failed,
+        failureRatio: run.total === 0 ? 0 : failed / run.total,
+        failures: run.failures,
+        unmatchedMajorTerms: aggregateUnmatchedMajorTerms(run.postings),
+        sinks: run.sinkResults.map(({sink, written, failedIn, error}) => ({
+            sink,
+            written,
+            failedIn,
+            error: error?.message,
+        })),
+    };
+}
+
+/**
+ * Counts the major terms that could not be matched to a known major, across the postings of a run.
+ *
+ * The most frequent terms come first, so the report shows which majors are most worth adding to the taxonomy.
+ *
+ * @param {Pick<RecruitPosting, "id" | "unmatchedMajorTerms">[]} postings - The transformed postings, or just their ids and unmatched terms.
+ * @returns {UnmatchedMajorTerm[]} - Every unmatched term with its number of postings and their ids.
+ */
+export function aggregateUnmatchedMajorTerms(
+    postings: Pick<RecruitPosting, "id" | "unmatchedMajorTerms">[],
+): UnmatchedMajorTerm[] {
+    const terms = new Map<string, UnmatchedMajorTerm>();
+
+    for (const posting of postings) {
+        for (const term of new Set(posting.unmatchedMajorTerms ?? [])) {
+            if (!terms.has(term)) {
+                terms.set(term, {term, count: 0, postingIds: []});
+            }
+            const entry = terms.get(term);
+            entry.count++;
+            entry.postingIds.push(posting.id);
+        }
+    }
+
+    return [...terms.values()].sort((a, b) => b.count - a.count || a.term.localeCompare(b.term));
+}
@@ -0,0 +1,275 @@
+import * as bundledSkills from "./skills.json";
+import {parseMajors} from "../major/major";
+
+/**
+ * A skill students can filter postings on, with the other spellings organizations use for it.
+ */
+export interface Skill {
+    name: string;
+    aliases?: string[];
+}
+
+export interface SkillDictionary {
+    version: string;
+    skills: Skill[];
+}
+
+/**
+ * A minimum GPA, on the scale the organization announced it on (4.5 unless stated otherwise).
+ */
+export interface GpaRequirement {
+    minGpa: number;
+    scale: number;
+}
+
+/**
+ * The "자격사항" of a posting, parsed into fields students can filter on.
+ *
+ * `grade` holds the same grade levels as `selectionInfo` (every grade for "무관", empty if none could be
+ * read); `credit` is null when no minimum GPA is required. `competence` and `etc` keep the announced
+ * items one per entry, and `skills` lists the dictionary skills named in them.
+ */
+export interface Qualifications {
+    major?: string[];
+    recruitCount?: number;
+    grade?: number[];
+    credit?: GpaRequirement | null;
+    competence?: string[];
+    etc?: string[];
+    skills: string[];
+}
+
+interface SkillPattern {
+    name: string;
+    length: number;
+    regex: RegExp;
+}
+
+const ALL_GRADES = [1, 2, 3, 4];
+const DEFAULT_GPA_SCALE = 4.5;
+const NO_REQUIREMENT_PATTERN = /^(?:무관|제한\s*없음|해당\s*없음|없음|무|x|-|n\/a)$/i;
+const BULLET_PATTERN = /^\s*(?:\d{1,2}\s*[.)]|[-*.•·ㅇ○●◈◆■□▶►※★☆￭▪]+)\s*/;
+
+const skillDictionary = parseSkillDictionary(bundledSkills);
+// Longest spellings first, so "JavaScript" is matched before "Java" can claim part of it.
+const skillPatterns: SkillPattern[] = skillDictionary.skills
+    .flatMap((skill) => [skill.name, ...(skill.aliases ?? [])].map((text) => ({
+        name: skill.name,
+        length: text.length,
+        regex: new RegExp(`(?<![가-힣A-Za-z0-9])${escapeRegExp(text)}(?![A-Za-z0-9+#])`, "gi"),
+    })))
+    .sort((a, b) => b.length - a.length);
+
+/**
+ * The version of the bundled skills dictionary.
+ */
+export const SKILL_DICTIONARY_VERSION = skillDictionary.version;
+
+/**
+ * Parses and validates a skills dictionary.
+ *
+ * Skill names must be unique and no alias may be claimed by two skills, compared case-insensitively.
+ * Every problem is reported at once.
+ *
+ * @param {any} data - The parsed JSON of a skills dictionary.
+ * @returns {SkillDictionary} - The validated dictionary.
+ * @throws {Error} - Throws an error listing every problem of the dictionary.
+ */
+export function parseSkillDictionary(data: any): SkillDictionary {
+    const errors: string[] = [];
+
+    if (typeof data?.version !== "string" || data.version.length === 0) errors.push("version is required");
+    if (!Array.isArray(data?.skills) || data.skills.length === 0) {
+        throw new Error("Invalid skills dictionary: skills must be a non-empty array");
+    }
+
+    const owners = new Map<string, string>();
+    for (const skill of data.skills) {
+        if (typeof skill?.name !== "string" || skill.name.length === 0) {
+            errors.push("every skill needs a name");
+            continue;
+        }
+        for (const text of [skill.name, ...(skill.aliases ?? [])]) {
+            const owner = owners.get(text.toLowerCase());
+            if (owner) errors.push(`${skill.name}: "${text}" is already used by ${owner}`);
+            else owners.set(text.toLowerCase(), skill.name);
+        }
+    }
+
+    if (errors.length > 0) {
+        throw new Error(`Invalid skills dictionary:\n - ${errors.join("\n - ")}`);
+    }
+    return data;
+}
+
+/**
+ * Parses qualifications-related information from an input string based on predefined patterns.
+ *
+ * The function extracts the major, recruit count, grade, credit, required competence and additional
+ * information sections, then parses each of them: the major with `parseMajors`, the recruit count with
+ * `parseRecruitCount`, the grade with `parseGrades`, the credit with `parseGpaRequirement` and the
+ * competence and additional information with `splitItems`. The skills named in the competence and
+ * additional information are collected in `skills`. A section that is missing is left out.
+ *
+ * @param {string} input - The input string containing qualifications-related data.
+ * @returns {Qualifications} - The parsed qualifications.
+ */
+export function parseQualifications(input: string): Qualifications {
+    const sections: Record<string, string> = {};
+    const patterns = {
+        major: /전공\s*:\s*([\s\S]*?)(?=\*인원|$)/,
+        recruitCount: /인원\s*:\s*([\s\S]*?)(?=\*학년|$)/,
+        grade: /학년\s*:\s*([\s\S]*?)(?=\*학점\/평점|$)/,
+        credit: /학점\/평점\s*:\s*([\s\S]*?)(?=\*요구 역량|$)/,
+        competence: /요구\s*역량\s*:\s*([\s\S]*?)(?=\*기타사항|$)/,
+        etc: /기타사항\s*:\s*([\s\S]*?)(?=$)/,
+    };
+
+    for (const [key, regex] of Object.entries(patterns)) {
+        const match = input.match(regex);
+        if (match && match[1]) {
+            sections[key] = match[1].trim();
+        }
+    }
+
+    const result: Qualifications = {skills: []};
+    if (sections.major !== undefined) result.major = parseMajors(sections.major);
+    if (sections.recruitCount !== undefined) {
+        const recruitCount = parseRecruitCount(sections.recruitCount);
+        if (recruitCount !== null) result.recruitCount = recruitCount;
+    }
+    if (sections.grade !== undefined) result.grade = parseGrades(sections.grade);
+    if (sections.credit !== undefined) result.credit = parseGpaRequirement(sections.credit);
+    if (sections.competence !== undefined) result.competence = splitItems(sections.competence);
+    if (sections.etc !== undefined) result.etc = splitItems(sections.etc);
+    result.skills = extractSkills([sections.competence, sections.etc].filter(Boolean).join("\n"));
+
+    return result;
+}
+
+/**
+ * Parses the number of students an organization recruits (e.g., "1명", "30 명 (상시)", "1~2명").
+ *
+ * A range counts as its upper bound; anything after the first number (e.g., "0명 (2명 예정)") is ignored.
+ *
+ * @param {string} value - The input string representing the recruit count.
+ * @returns {number | null} - The number of students, or null if the string holds no number.
+ */
+export function parseRecruitCount(value: string): number | null {
+    const match = value.match(/(\d+)(?:\s*[~∼\-]\s*(\d+))?/);
+    if (!match) return null;
+    return Number(match[2] ?? match[1]);
+}
+
+/**
+ * Parses the grade levels a posting is open to, in the same form as `parseSelectionInfo`.
+ *
+ * The function understands "무관", lists ("3,4학년", "3/4학년"), ranges ("3~4학년", "3-4학년") and lower
+ * bounds ("3학년 이상"). Only the first line is read, before any remark in parentheses, and numbers
+ * that are semesters, years or months ("4학기", "2025년") are not grades.
+ *
+ * @param {string} value - The input string representing the grades (e.g., "3,4학년").
+ * @returns {number[]} - The grade levels in ascending order, or an empty array if none are found.
+ */
+export function parseGrades(value: string): number[] {
+    const text = value.split(/\n|\(/)[0];
+    if (/무관|제한\s*없음/.test(text)) {
+        return [...ALL_GRADES];
+    }
+    if (!/학년/.test(text) && !/^[\d\s,~∼\-/]+$/.test(text)) {
+        return [];
+    }
+
+    const lowerBound = text.match(/([1-4])\s*(?:학년)?\s*이상/);
+    if (lowerBound) {
+        return ALL_GRADES.filter((grade) => grade >= Number(lowerBound[1]));
+    }
+    const range = text.match(/([1-4])\s*(?:학년)?\s*[~∼\-]\s*([1-9])(?!\d)/);
+    if (range) {
+        return ALL_GRADES.filter((grade) => grade >= Number(range[1]) && grade <= Number(range[2]));
+    }
+
+    const grades = new Set<number>();
+    for (const match of text.matchAll(/(?<![\d.])([1-4])(?![\d.]|\s*(?:학기|년|월|개월|명))/g)) {
+        grades.add(Number(match[1]));
+    }
+    return ALL_GRADES.filter((grade) => grades.has(grade));
+}
+
+/**
+ * Parses the minimum GPA of a posting (e.g., "3.0 이상", "3.0/4.5", "3.3 이상 (4.5 만점기준)").
+ *
+ * The scale is read from a "/4.3" or "4.3 만점" mention and defaults to 4.5. Text stating that there
+ * is no requirement ("무관", "제한없음"), or that does not name a GPA at all (e.g., "높을수록 우대"),
+ * gives null, as does a minimum above its scale.
+ *
+ * @param {string} value - The input string representing the credit requirement.
+ * @returns {GpaRequirement | null} - The minimum GPA and its scale, or null if none is required.
+ */
+export function parseGpaRequirement(value: string): GpaRequirement | null {
+    const text = value.trim();
+    if (NO_REQUIREMENT_PATTERN.test(text)) return null;
+
+    const gpa = text.match(/(?<![\d.])([0-4](?:\.\d{1,2})?)(?!\d)(?:\s*\/\s*(4\.[35]))?/);
+    // A bare integer is only a GPA when the text is just that number or says "이상" (e.g., "3", "3 이상").
+    if (!gpa || !/\./.test(gpa[1]) && !gpa[2] && !/이상/.test(text) && text !== gpa[1]) return null;
+
+    const statedScale = gpa[2] ?? text.match(/(4\.[35])\s*만점/)?.[1];
+    const minGpa = Number(gpa[1]);
+    const scale = statedScale ? Number(statedScale) : DEFAULT_GPA_SCALE;
+    if (minGpa <= 0 || minGpa > scale) return null;
+
+    return {minGpa, scale};
+}
+
+/**
+ * Splits a free-text list into its items.
+ *
+ * Items are the lines starting with a bullet ("1.", "2)", "-", "*", "ㅇ", "•", ...); a line without a
+ * bullet continues the item before it. Text without any bullet is split by line. Bullets are removed,
+ * and items saying there is nothing to list ("없음", "-") are dropped.
+ *
+ * @param {string} value - The input string (e.g., "1. 기계 전공자\n2. Creo 활용 가능자").
+ * @returns {string[]} - The items, in order.
+ */
+export function splitItems(value: string): string[] {
+    const lines = value.split("\n").map((line) => line.trim()).filter((line) => line.length > 0);
+    const bulleted = lines.some((line) => BULLET_PATTERN.test(line));
+    const items: string[] = [];
+
+    for (const line of lines) {
+        if (bulleted && !BULLET_PATTERN.test(line) && items.length > 0) {
+            items[items.length - 1] += ` ${line}`;
+        } else {
+            items.push(line.replace(BULLET_PATTERN, "").trim());
+        }
+    }
+    return items.filter((item) => item.length > 0 && !NO_REQUIREMENT_PATTERN.test(item));
+}
+
+/**
+ * Extracts the skills of the bundled dictionary named in a text.
+ *
+ * Skills are matched by name or alias, case-insensitively and as whole words ("파이썬", "Creo(Pro-E)",
+ * "C++ / Python"); Korean particles after a skill ("파이썬을") are allowed. Longer spellings win, so
+ * "자바스크립트" is JavaScript and not Java.
+ *
+ * @param {string} text - The input text (e.g., the required competence of a posting).
+ * @returns {string[]} - The canonical names of the skills found, in dictionary order.
+ */
+export function extractSkills(text: string): string[] {
+    const found = new Set<string>();
+    let remaining = text;
+
+    for (const {name, regex} of skillPatterns) {
+        remaining = remaining.replace(regex, (match) => {
+            found.add(name);
+            return " ".repeat(match.length);
+        });
+    }
+    return skillDictionary.skills.map((skill) => skill.name).filter((name) => found.has(name));
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,228 @@
+import * as bundledRules from "./organization-rules.json";
+import {getS3File} from "../aws/s3";
+import {getConfig} from "../config/config";
+
+/**
+ * A condition on a transformed field. `field` may be a dotted path (e.g., "qualifications.grade").
+ *
+ * Exactly one matcher is expected per condition:
+ * - `equals`: the value is strictly equal.
+ * - `contains`: the string value contains the text, or the array value contains the element.
+ * - `matches`: the string value matches the regular expression.
+ * - `exists`: the field is (or is not) set.
+ */
+export interface RuleCondition {
+    field: string;
+    equals?: any;
+    contains?: any;
+    matches?: string;
+    exists?: boolean;
+}
+
+/**
+ * A change made to a matching posting.
+ *
+ * - `set`: sets the field only if it is not set yet.
+ * - `override`: always replaces the field.
+ * - `append`: adds the value (or each value of an array) to an array field, skipping duplicates.
+ */
+export interface RuleAction {
+    type: "set" | "override" | "append";
+    field: string;
+    value: any;
+}
+
+export interface OrganizationRule {
+    id: string;
+    description?: string;
+    when: RuleCondition[];
+    actions: RuleAction[];
+}
+
+const ACTION_TYPES = ["set", "override", "append"];
+const MATCHERS = ["equals", "contains", "matches", "exists"];
+
+/**
+ * Fields the post-processors that run after the rules derive from other fields (e.g., `majors` from
+ * `announcedMajors`). An action on them would be overwritten, so rules change the fields they are
+ * derived from instead.
+ */
+const DERIVED_FIELDS = [
+    "organizationId",
+    "majors",
+    "majorMatches",
+    "unmatchedMajorTerms",
+    "applicationDeadlineAt",
+    "status",
+    "statusConflict",
+    "competitionRate",
+    "appliedRules",
+];
+
+const compiledPatterns = new Map<string, RegExp>();
+
+let activeRules: OrganizationRule[] = parseOrganizationRules(bundledRules);
+let rulesReady: Promise<void> | undefined;
+
+/**
+ * Parses and validates a rule file.
+ *
+ * The regular expressions of `matches` conditions are compiled here, so an invalid pattern fails the
+ * rules when they are loaded rather than the transform of every posting.
+ *
+ * @param {any} data - The parsed JSON of a rule file, an object with a `rules` array.
+ * @returns {OrganizationRule[]} - The rules, in file order.
+ * @throws {Error} - Throws an error listing every invalid rule.
+ */
+export function parseOrganizationRules(data: any): OrganizationRule[] {
+    const rules = data?.rules;
+    if (!Array.isArray(rules)) {
+        throw new Error("Invalid organization rules: expected an object with a rules array");
+    }
+
+    const errors: string[] = [];
+    const ids = new Set<string>();
+    rules.forEach((rule, index) => {
+        const name = typeof rule?.id === "string" && rule.id ? rule.id : `#${index}`;
+        if (name.startsWith("#")) errors.push(`${name}: id is required`);
+        if (ids.has(name)) errors.push(`${name}: duplicate id`);
+        ids.add(name);
+
+        if (!Array.isArray(rule?.when) || rule.when.length === 0) {
+            errors.push(`${name}: when must be a non-empty array of conditions`);
+        } else {
+            for (const condition of rule.when) {
+                const matchers = MATCHERS.filter((matcher) => condition?.[matcher] !== undefined);
+                if (typeof condition?.field !== "string" || matchers.length !== 1) {
+                    errors.push(`${name}: a condition needs a field and exactly one of ${MATCHERS.join(", ")}`);
+                } else if (condition.matches !== undefined) {
+                    try {
+                        compilePattern(condition.matches);
+                    } catch (error) {
+                        errors.push(`${name}: invalid pattern ${JSON.stringify(condition.matches)} (${error.message})`);
+                    }
+                }
+            }
+        }
+
+        if (!Array.isArray(rule?.actions) || rule.actions.length === 0) {
+            errors.push(`${name}: actions must be a non-empty array`);
+        } else {
+            for (const action of rule.actions) {
+                if (!ACTION_TYPES.includes(action?.type) || typeof action?.field !== "string" || action.value === undefined) {
+                    errors.push(`${name}: an action needs a type (${ACTION_TYPES.join(", ")}), a field and a value`);
+                } else if (DERIVED_FIELDS.includes(action.field)) {
+                    errors.push(`${name}: ${action.field} is derived after the rules run and cannot be changed by an action`);
+                }
+            }
+        }
+    });
+
+    if (errors.length > 0) {
+        throw new Error(`Invalid organization rules:\n - ${errors.join("\n - ")}`);
+    }
+    return rules;
+}
+
+/**
+ * Loads the organization rules from S3 if `ORGANIZATION_RULES_URI` is configured.
+ *
+ * Otherwise the rules bundled with the function are used. The rules are loaded once per Lambda container.
+ */
+export function initOrganizationRules(): Promise<void> {
+    const source = getConfig().organizationRules;
+    if (!source) {
+        return Promise.resolve();
+    }
+
+    rulesReady ??= getS3File(source.bucket, source.key)
+        .then((data) => {
+            activeRules = parseOrganizationRules(data);
+            console.log(`Loaded ${activeRules.length} organization rule(s) from s3://${source.bucket}/${source.key}`);
+        })
+        .catch((error) => {
+            rulesReady = undefined;
+            throw error;
+        });
+    return rulesReady;
+}
+
+/**
+ * Returns the rules currently applied by `transformData`.
+ *
+ * @returns {OrganizationRule[]} - The active rules.
+ */
+export function getOrganizationRules(): OrganizationRule[] {
+    return activeRules;
+}
+
+/**
+ * Applies every matching rule to a transformed posting.
+ *
+ * Rules are evaluated in order against the posting as modified by the rules before them. The ids of
+ * the rules that fired are appended to `appliedRules`, so every override can be traced back to its rule.
+ *
+ * @param {Record<string, any>} posting - The transformed posting, modified in place.
+ * @param {OrganizationRule[]} rules - The rules to apply.
+ * @returns {string[]} - The ids of the rules that fired.
+ */
+export function applyOrganizationRules(posting: Record<string, any>, rules: OrganizationRule[]): string[] {
+    const fired: string[] = [];
+
+    for (const rule of rules) {
+        if (!rule.when.every((condition) => matchesCondition(posting, condition))) {
+            continue;
+        }
+        rule.actions.forEach((action) => applyAction(posting, action));
+        fired.push(rule.id);
+    }
+
+    if (fired.length > 0) {
+        posting["appliedRules"] = [...(posting["appliedRules"] ?? []), ...fired];
+    }
+    return fired;
+}
+
+function matchesCondition(posting: Record<string, any>, condition: RuleCondition): boolean {
+    const value = condition.field.split(".").reduce((current, key) => current?.[key], posting);
+
+    if (condition.exists !== undefined) {
+        return (value !== undefined && value !== null) === condition.exists;
+    }
+    if (condition.equals !== undefined) {
+        return value === condition.equals;
+    }
+    if (condition.contains !== undefined) {
+        return (typeof value === "string" || Array.isArray(value)) && value.includes(condition.contains);
+    }
+    if (condition.matches !== undefined) {
+        return typeof value === "string" && compilePattern(condition.matches).test(value);
+    }
+    return false;
+}
+
+function compilePattern(pattern: string): RegExp {
+    let compiled = compiledPatterns.get(pattern);
+    if (!compiled) {
+        compiled = new RegExp(pattern);
+        compiledPatterns.set(pattern, compiled);
+    }
+    return compiled;
+}
+
+function applyAction(posting: Record<string, any>, action: RuleAction) {
+    switch (action.type) {
+        case "set":
+            posting[action.field] ??= action.value;
+            break;
+        case "override":
+            posting[action.field] = action.value;
+            break;
+        case "append": {
+            const current = posting[action.field] === undefined ? [] : [].concat(posting[action.field]);
+            const values = [].concat(action.value).filter((value) => !current.includes(value));
+            posting[action.field] = [...current, ...values];
+            break;
+        }
+    }
+}
@@ -0,0 +1,50 @@
+import {fetchStoredStates, RemovalSummary, saveToDynamoDB, StoredState, WriteSummary} from "../aws/dynamo";
+import {reconcileRemovedPostings} from "../posting/reconcile";
+import {RecruitPosting} from "../posting/posting";
+import {Sink, SinkRun} from "./sink";
+
+/**
+ * Creates a sink that upserts postings into the recruit table.
+ *
+ * The stored content hashes are read once when the run starts and shared by every batch. When the run
+ * is closed, postings of the same program that are no longer in the crawl are marked removed, unless the
+ * table already holds a newer crawl (e.g., when a backfill replays an old one), and a summary of added, updated, unchanged, skipped and removed postings is logged.
+ *
+ * @returns {Sink} - The DynamoDB sink.
+ */
+export function createDynamoSink(): Sink {
+    let run: SinkRun;
+    let stored: Map<number, StoredState>;
+    let newestSeenAt = "";
+    const summary: WriteSummary = {added: 0, updated: 0, unchanged: 0, skipped: 0};
+
+    return {
+        name: "dynamodb",
+        async init(sinkRun: SinkRun) {
+            run = sinkRun;
+            stored = await fetchStoredStates();
+            newestSeenAt = [...stored.values()].reduce((newest, {lastSeenAt = ""}) => (lastSeenAt > newest ? lastSeenAt : newest), "");
+        },
+        async write(batch: RecruitPosting[]) {
+            const {added, updated, unchanged, skipped} = await saveToDynamoDB(batch, run.crawledAt, stored, run.key);
+            summary.added += added;
+            summary.updated += updated;
+            summary.unchanged += unchanged;
+            summary.skipped += skipped;
+        },
+        async close() {
+            let removal: RemovalSummary = {removed: 0, skipped: 0};
+            if (newestSeenAt > run.crawledAt) {
+                console.log(`Skipping reconciliation for Key=${run.key}: the table holds a crawl from ${newestSeenAt}`);
+            } else {
+                removal = await reconcileRemovedPostings(run.crawled, run.key, run.crawledAt);
+            }
+            console.log(`Crawl summary for Key=${run.key}: added=${summary.added}, updated=${summary.updated}, ` +
+                `unchanged=${summary.unchanged}, skipped=${summary.skipped + removal.skipped}, removed=${removal.removed}`);
+        },
+        async abort() {
+            // The postings written so far are kept; only the reconciliation needs the whole crawl.
+            console.warn(`Crawl of Key=${run.key} was not read to the end; no posting was marked removed`);
+        },
+    };
+}
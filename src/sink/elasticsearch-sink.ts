@@ -0,0 +1,25 @@
+import {ensureIndex, saveToElasticsearch} from "../aws/elasticsearch";
+import {getConfig} from "../config/config";
+import {RecruitPosting} from "../posting/posting";
+import {Sink} from "./sink";
+
+/**
+ * Creates a sink that indexes postings into Elasticsearch, creating the index on first use.
+ *
+ * @returns {Sink} - The Elasticsearch sink.
+ */
+export function createElasticsearchSink(): Sink {
+    return {
+        name: "elasticsearch",
+        async init() {
+            await ensureIndex(getConfig().elasticsearch.index);
+        },
+        async write(batch: RecruitPosting[]) {
+            await saveToElasticsearch(batch);
+        },
+        async close() {
+        },
+        async abort() {
+        },
+    };
+}
@@ -0,0 +1,42 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import {getConfig} from "../config/config";
+import {RecruitPosting} from "../posting/posting";
+import {Sink, SinkRun, toProcessedKey} from "./sink";
+
+/**
+ * Creates a sink that writes the processed postings of a crawl to a local JSON file.
+ *
+ * The file is named after the raw crawl key and written to `LOCAL_SINK_DIR` (default "processed").
+ * Each batch is appended to the file as it arrives; an aborted run deletes the partial file.
+ *
+ * @returns {Sink} - The local filesystem sink.
+ */
+export function createLocalSink(): Sink {
+    let filePath: string;
+    let written = 0;
+
+    return {
+        name: "local",
+        async init(run: SinkRun) {
+            const directory = getConfig().localSinkDir;
+            fs.mkdirSync(directory, {recursive: true});
+            filePath = path.join(directory, path.basename(toProcessedKey(run.key)));
+            written = 0;
+            fs.writeFileSync(filePath, "[", {encoding: "utf-8"});
+        },
+        async write(batch: RecruitPosting[]) {
+            const text = batch.map((posting) => `${written++ > 0 ? "," : ""}\n${JSON.stringify(posting, null, 2)}`).join("");
+            fs.appendFileSync(filePath, text, {encoding: "utf-8"});
+        },
+        async close() {
+            fs.appendFileSync(filePath, "\n]", {encoding: "utf-8"});
+            console.log(`Data saved to: ${filePath}`);
+        },
+        async abort() {
+            if (filePath) {
+                fs.rmSync(filePath, {force: true});
+            }
+        },
+    };
+}
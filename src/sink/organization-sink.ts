@@ -0,0 +1,36 @@
+import {getStoredOrganizations, saveOrganizations} from "../aws/dynamo";
+import {collectOrganizations, mergeOrganization, Organization} from "../organization/organization";
+import {RecruitPosting} from "../posting/posting";
+import {Sink, SinkRun} from "./sink";
+
+/**
+ * Creates a sink that derives organizations from the postings of a crawl and writes them to the organization table.
+ *
+ * Organizations are collected from every batch and written when the run is closed, merged with their
+ * stored versions so that counts of other programs are kept.
+ *
+ * @returns {Sink} - The organization sink.
+ */
+export function createOrganizationSink(): Sink {
+    let run: SinkRun;
+    const organizations = new Map<string, Organization>();
+
+    return {
+        name: "organizations",
+        async init(sinkRun: SinkRun) {
+            run = sinkRun;
+            organizations.clear();
+        },
+        async write(batch: RecruitPosting[]) {
+            collectOrganizations(organizations, batch);
+        },
+        async close() {
+            const stored = await getStoredOrganizations([...organizations.keys()]);
+            await saveOrganizations([...organizations.values()].map((organization) =>
+                mergeOrganization(stored.get(organization.id), organization, run.crawledAt)));
+        },
+        async abort() {
+            organizations.clear();
+        },
+    };
+}
@@ -0,0 +1,31 @@
+import {createDynamoSink} from "./dynamo-sink";
+import {createElasticsearchSink} from "./elasticsearch-sink";
+import {createLocalSink} from "./local-sink";
+import {createOrganizationSink} from "./organization-sink";
+import {createS3Sink} from "./s3-sink";
+import {Sink} from "./sink";
+
+const SINK_FACTORIES: Record<string, () => Sink> = {
+    dynamodb: createDynamoSink,
+    elasticsearch: createElasticsearchSink,
+    s3: createS3Sink,
+    local: createLocalSink,
+    organizations: createOrganizationSink,
+};
+
+/**
+ * Creates the sinks with the given names (e.g., ["dynamodb", "elasticsearch"]).
+ *
+ * @param {string[]} names - The sink names, typically the `sinks` setting of the stage.
+ * @returns {Sink[]} - A new instance of every named sink.
+ * @throws {Error} - Throws an error if a name does not match a known sink.
+ */
+export function createSinks(names: string[]): Sink[] {
+    return names.map((name) => {
+        const factory = SINK_FACTORIES[name];
+        if (!factory) {
+            throw new Error(`Unknown sink "${name}", expected one of: ${Object.keys(SINK_FACTORIES).join(", ")}`);
+        }
+        return factory();
+    });
+}
@@ -0,0 +1,45 @@
+import {createS3TextUpload, S3TextUpload} from "../aws/s3";
+import {getConfig} from "../config/config";
+import {PROCESSED_PREFIX} from "../constants";
+import {RecruitPosting} from "../posting/posting";
+import {Sink, SinkRun, toProcessedKey} from "./sink";
+
+/**
+ * Creates a sink that writes the processed postings of a crawl as one JSON array to S3.
+ *
+ * The object is written under the `processed/` prefix with the same key as the raw crawl, in the bucket
+ * named by `PROCESSED_BUCKET` or, if unset, next to the raw file. Batches are streamed into a multipart
+ * upload, so the postings of a large crawl are never held in memory at once.
+ *
+ * @returns {Sink} - The S3 sink.
+ */
+export function createS3Sink(): Sink {
+    let upload: S3TextUpload;
+    let written = 0;
+
+    return {
+        name: "s3",
+        async init(run: SinkRun) {
+            upload = createS3TextUpload(getConfig().processedBucket ?? run.bucket, `${PROCESSED_PREFIX}${toProcessedKey(run.key)}`, "application/json");
+            written = 0;
+            await upload.write("[");
+        },
+        async write(batch: RecruitPosting[]) {
+            try {
+                for (const posting of batch) {
+                    await upload.write(`${written++ > 0 ? "," : ""}\n${JSON.stringify(posting, null, 2)}`);
+                }
+            } catch (error) {
+                await upload.abort().catch(() => undefined);
+                throw error;
+            }
+        },
+        async close() {
+            await upload.write("\n]");
+            await upload.close();
+        },
+        async abort() {
+            await upload?.abort();
+        },
+    };
+}
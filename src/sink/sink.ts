@@ -0,0 +1,107 @@
+import {RAW_FILE_PATTERN} from "../constants";
+import {RecruitPosting} from "../posting/posting";
+
+/**
+ * The minimal part of a posting needed to reconcile a crawl with what is already stored.
+ */
+export type PostingRef = Pick<RecruitPosting, "id" | "year" | "semester">;
+
+/**
+ * Describes the crawl object being processed, shared by every sink of a run.
+ *
+ * `crawled` holds a reference to every posting read from the object, including the ones that were
+ * quarantined or failed to transform and never reach a sink, so sinks can tell a posting that disappeared from one that failed.
+ * The object is read in batches, so the list grows as batches are written and is complete once `close` is called.
+ */
+export interface SinkRun {
+    bucket: string;
+    key: string;
+    crawledAt: string;
+    crawled: PostingRef[];
+}
+
+/**
+ * A destination for transformed postings.
+ *
+ * A sink is created for a single run: `init` is called once, `write` once per batch of valid postings
+ * and `close` once after the last batch. Sinks that buffer their output flush it in `close`. If the crawl
+ * cannot be read to the end, `abort` is called instead of `close` and discards the partial output.
+ */
+export interface Sink {
+    readonly name: string;
+
+    init(run: SinkRun): Promise<void>;
+
+    write(batch: RecruitPosting[]): Promise<void>;
+
+    close(): Promise<void>;
+
+    abort(): Promise<void>;
+}
+
+/**
+ * Returns the key of the JSON written for a raw crawl (e.g., "a/crawl.ndjson.gz" -> "a/crawl.json"), under the
+ * prefix of the output: the processed postings, the quarantined postings or the processing report.
+ *
+ * @param {string} rawKey - The key of the raw crawl.
+ * @returns {string} - The same key with a plain .json extension.
+ */
+export function toProcessedKey(rawKey: string): string {
+    return `${rawKey.replace(RAW_FILE_PATTERN, "")}.json`;
+}
+
+export interface SinkResult {
+    sink: string;
+    written: number;
+    failedIn?: "init" | "write" | "close";
+    error?: Error;
+}
+
+/**
+ * Fans postings out to several sinks, isolating their failures.
+ *
+ * Every call is forwarded to all sinks in parallel. A sink that throws is recorded as failed and is
+ * skipped for the rest of the run, while the other sinks carry on. The per-sink results are returned by
+ * `close`. `abort` is forwarded to every sink, including failed ones, since they may hold partial output;
+ * a sink that fails to abort is only logged.
+ *
+ * @param {Sink[]} sinks - The sinks to write to.
+ * @returns An object forwarding `init`, `write`, `close` and `abort` to the sinks.
+ */
+export function createSinkFanout(sinks: Sink[]) {
+    const results = new Map<string, SinkResult>(sinks.map((sink) => [sink.name, {sink: sink.name, written: 0}]));
+
+    async function forward(phase: SinkResult["failedIn"], call: (sink: Sink) => Promise<void>): Promise<void> {
+        const healthy = sinks.filter((sink) => !results.get(sink.name).error);
+        const outcomes = await Promise.allSettled(healthy.map((sink) => call(sink)));
+
+        outcomes.forEach((outcome, index) => {
+            if (outcome.status === "rejected") {
+                const result = results.get(healthy[index].name);
+                result.failedIn = phase;
+                result.error = outcome.reason instanceof Error ? outcome.reason : new Error(String(outcome.reason));
+                console.error(`Sink ${result.sink} failed during ${phase}:`, outcome.reason);
+            }
+        });
+    }
+
+    return {
+        init: (run: SinkRun) => forward("init", (sink) => sink.init(run)),
+        write: (batch: RecruitPosting[]) => forward("write", async (sink) => {
+            await sink.write(batch);
+            results.get(sink.name).written += batch.length;
+        }),
+        close: async (): Promise<SinkResult[]> => {
+            await forward("close", (sink) => sink.close());
+            return [...results.values()];
+        },
+        abort: async (): Promise<void> => {
+            const outcomes = await Promise.allSettled(sinks.map((sink) => sink.abort()));
+            outcomes.forEach((outcome, index) => {
+                if (outcome.status === "rejected") {
+                    console.error(`Sink ${sinks[index].name} failed to abort:`, outcome.reason);
+                }
+            });
+        },
+    };
+}
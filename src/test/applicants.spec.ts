@@ -0,0 +1,96 @@
+import {
+    appendApplicantSample,
+    ApplicantSample,
+    computeCompetitionRate,
+    MAX_APPLICANT_SAMPLES,
+    parseApplicantCount
+} from "../posting/applicants";
+import {transformData} from "../lambda";
+
+describe("parseApplicantCount Function", () => {
+    test.each([
+        ["0", 0],
+        ["12", 12],
+        [" 3명 ", 3],
+    ])("should parse %s", (value, expected) => {
+        expect(parseApplicantCount(value)).toBe(expected);
+    });
+
+    test.each(["", "-", "약 3명", "1.5"])("should not parse %s", (value) => {
+        expect(parseApplicantCount(value)).toBeUndefined();
+    });
+});
+
+describe("computeCompetitionRate Function", () => {
+    test("should divide the applicants by the recruit count", () => {
+        expect(computeCompetitionRate(7, 2)).toBe(3.5);
+        expect(computeCompetitionRate(10, 3)).toBe(3.33);
+        expect(computeCompetitionRate(0, 1)).toBe(0);
+    });
+
+    test("should be undefined without both counts or when nobody is recruited", () => {
+        expect(computeCompetitionRate(undefined, 2)).toBeUndefined();
+        expect(computeCompetitionRate(3, undefined)).toBeUndefined();
+        expect(computeCompetitionRate(3, 0)).toBeUndefined();
+    });
+});
+
+describe("appendApplicantSample Function", () => {
+    const series: ApplicantSample[] = [
+        {crawledAt: "2024-11-01T00:00:00.000Z", applicantCount: 0},
+        {crawledAt: "2024-11-03T00:00:00.000Z", applicantCount: 2},
+    ];
+
+    test("should append a sample with a new count", () => {
+        expect(appendApplicantSample(series, {crawledAt: "2024-11-05T00:00:00.000Z", applicantCount: 5})).toEqual([
+            ...series,
+            {crawledAt: "2024-11-05T00:00:00.000Z", applicantCount: 5},
+        ]);
+    });
+
+    test("should not append a sample with the same count as the last one", () => {
+        expect(appendApplicantSample(series, {crawledAt: "2024-11-05T00:00:00.000Z", applicantCount: 2})).toEqual(series);
+    });
+
+    test("should insert a sample of an earlier crawl in order", () => {
+        expect(appendApplicantSample(series, {crawledAt: "2024-11-02T00:00:00.000Z", applicantCount: 1})).toEqual([
+            series[0],
+            {crawledAt: "2024-11-02T00:00:00.000Z", applicantCount: 1},
+            series[1],
+        ]);
+    });
+
+    test("should replace the sample of the same crawl", () => {
+        expect(appendApplicantSample(series, {crawledAt: "2024-11-03T00:00:00.000Z", applicantCount: 4})).toEqual([
+            series[0],
+            {crawledAt: "2024-11-03T00:00:00.000Z", applicantCount: 4},
+        ]);
+    });
+
+    test("should keep only the latest samples", () => {
+        const long = Array.from({length: MAX_APPLICANT_SAMPLES}, (_, i) => ({
+            crawledAt: new Date(Date.UTC(2024, 0, 1 + i)).toISOString(),
+            applicantCount: i,
+        }));
+        const appended = appendApplicantSample(long, {crawledAt: "2030-01-01T00:00:00.000Z", applicantCount: -1});
+
+        expect(appended).toHaveLength(MAX_APPLICANT_SAMPLES);
+        expect(appended[0]).toEqual(long[1]);
+    });
+});
+
+describe("Applicant Counts of a Posting", () => {
+    test("should parse the counts and derive the competition rate", () => {
+        const posting = transformData({"id": "1", "모집인원": "2", "지원인원": "7"});
+
+        expect(posting).toMatchObject({recruitCount: 2, applicantCount: 7, competitionRate: 3.5});
+    });
+
+    test("should warn about a count that is not a number", () => {
+        const posting = transformData({"id": "1", "모집인원": "미정", "지원인원": "3"});
+
+        expect(posting.recruitCount).toBeUndefined();
+        expect(posting.competitionRate).toBeUndefined();
+        expect(posting.warnings).toContainEqual({field: "recruitCount", message: "is not a count", value: "미정"});
+    });
+});
@@ -0,0 +1,183 @@
+import * as path from "node:path";
+import {Readable} from "node:stream";
+import {CreateBucketCommand, PutObjectCommand, S3Client} from "@aws-sdk/client-s3";
+import {DynamoDBClient, PutItemCommand, ScanCommand, UpdateItemCommand} from "@aws-sdk/client-dynamodb";
+import {marshall} from "@aws-sdk/util-dynamodb";
+import * as s3 from "../aws/s3";
+import {processInOrder, runBackfill, selectBackfillObjects} from "../backfill/backfill";
+import {resetConfig} from "../config/config";
+import * as registry from "../sink/registry";
+import {Sink} from "../sink/sink";
+import {readJsonFile} from "./utils";
+
+describe("selectBackfillObjects Function", () => {
+    const object = (key: string, lastModified: string) => ({key, lastModified: new Date(lastModified)});
+
+    test("should keep raw crawls in the date range, oldest first", () => {
+        const selected = selectBackfillObjects([
+            object("2024/12/crawl.json", "2024-12-01T00:00:00Z"),
+            object("2024/11/crawl.json", "2024-11-01T00:00:00Z"),
+            object("2024/10/crawl.json", "2024-10-01T00:00:00Z"),
+            object("reports/2024/11/crawl.json", "2024-11-01T00:01:00Z"),
+            object("2024/11/notes.txt", "2024-11-02T00:00:00Z"),
+        ], {from: "2024-11-01", to: "2024-12-01"});
+
+        expect(selected.map((item) => item.key)).toEqual(["2024/11/crawl.json", "2024/12/crawl.json"]);
+    });
+});
+
+describe("processInOrder Function", () => {
+    test("should keep at most the given number of items in flight and consume them in order", async () => {
+        const consumed: number[] = [];
+        let inFlight = 0;
+        let maxInFlight = 0;
+
+        await processInOrder(
+            [30, 10, 20, 0, 5],
+            2,
+            (delay) => {
+                maxInFlight = Math.max(maxInFlight, ++inFlight);
+                return new Promise<number>((resolve) => setTimeout(() => resolve(delay), delay));
+            },
+            async (_, started) => {
+                consumed.push(await started);
+                inFlight--;
+            },
+        );
+
+        expect(consumed).toEqual([30, 10, 20, 0, 5]);
+        expect(maxInFlight).toBe(2);
+    });
+
+    test("should stop at the first failure", async () => {
+        const consumed: number[] = [];
+        const run = processInOrder([1, 2, 3], 3, (item) => item, async (item) => {
+            if (item === 2) throw new Error("unreadable");
+            consumed.push(item);
+        });
+
+        await expect(run).rejects.toThrow("unreadable");
+        expect(consumed).toEqual([1]);
+    });
+});
+
+describe("runBackfill Function with stubbed AWS calls", () => {
+    const raw = readJsonFile(path.join(__dirname, "/data/local-raw-data.json")).slice(0, 1);
+    const env = process.env;
+    let send: jest.SpyInstance;
+
+    beforeEach(() => {
+        process.env = {...env, STAGE: "dev", AWS_REGION: "ap-northeast-2", SINKS: "dynamodb", RECRUIT_TABLE: "hywep-recruit-test"};
+        delete process.env.HISTORY_TABLE;
+        resetConfig();
+        jest.spyOn(console, "log").mockImplementation(() => undefined);
+        jest.spyOn(s3, "listS3Objects").mockResolvedValue([{key: "2024/old.json", lastModified: new Date("2024-11-01T00:00:00Z")}]);
+        jest.spyOn(s3, "getS3ObjectStream").mockImplementation(async () => ({body: Readable.from([JSON.stringify(raw)])}));
+        jest.spyOn(s3, "getS3File").mockRejectedValue(Object.assign(new Error("missing"), {name: "NoSuchKey"}));
+        jest.spyOn(s3, "saveToS3").mockResolvedValue(undefined);
+        send = jest.spyOn(DynamoDBClient.prototype, "send").mockImplementation(async (command) => (command instanceof ScanCommand
+            ? {Items: [marshall({id: Number(raw[0].id), contentHash: "newer", lastSeenAt: "2024-11-20T00:00:00.000Z", version: 3})]}
+            : {}));
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        process.env = env;
+        resetConfig();
+    });
+
+    test("should not write an old crawl over the stored posting or reconcile it", async () => {
+        const result = await runBackfill({bucket: "bucket", mode: "write", concurrency: 1});
+
+        expect(result.objects).toEqual([expect.objectContaining({key: "2024/old.json", total: 1, valid: 1})]);
+        const commands = send.mock.calls.map(([command]) => command);
+        expect(commands.filter((command) => command instanceof PutItemCommand || command instanceof UpdateItemCommand)).toEqual([]);
+        expect(commands.filter((command) => command instanceof ScanCommand)).toHaveLength(1);
+    });
+
+    test("should count the postings of a dry run as they stream and save the checkpoint", async () => {
+        const result = await runBackfill({bucket: "bucket", mode: "dry-run", concurrency: 1, checkpoint: "test"});
+
+        expect(result.objects).toEqual([{key: "2024/old.json", total: 1, valid: 1, quarantined: 0, failed: 0}]);
+        expect(send).not.toHaveBeenCalled();
+        expect(s3.saveToS3).toHaveBeenCalledWith("bucket", "backfill/test.json", expect.objectContaining({completed: ["2024/old.json"]}));
+    });
+
+    test("should read a bounded number of objects at once and write them in order", async () => {
+        const keys = ["2024/a.json", "2024/b.json", "2024/c.json", "2024/d.json"];
+        jest.spyOn(s3, "listS3Objects").mockResolvedValue(keys.map((key, i) => ({key, lastModified: new Date(Date.UTC(2024, 10, i + 1))})));
+        const opened: string[] = [];
+        const closed: string[] = [];
+        let maxOpen = 0;
+        jest.spyOn(s3, "getS3ObjectStream").mockImplementation(async (_, key) => {
+            opened.push(key);
+            maxOpen = Math.max(maxOpen, opened.length - closed.length);
+            return {body: Readable.from([JSON.stringify(raw)])};
+        });
+        const written: string[] = [];
+        let current: string;
+        const sink: Sink = {
+            name: "memory",
+            async init({key}) {
+                current = key;
+            },
+            async write() {
+                written.push(current);
+            },
+            async close() {
+                closed.push(current);
+            },
+            async abort() {
+                closed.push(current);
+            },
+        };
+        jest.spyOn(registry, "createSinks").mockReturnValue([sink]);
+
+        await runBackfill({bucket: "bucket", mode: "write", concurrency: 2});
+
+        expect(written).toEqual(keys);
+        expect(opened).toEqual(keys);
+        expect(maxOpen).toBe(2);
+    });
+});
+
+/**
+ * Runs only against a local S3 stand-in (see docker-compose.yml), enabled by setting S3_ENDPOINT.
+ */
+const describeWithS3 = process.env.S3_ENDPOINT ? describe : describe.skip;
+
+describeWithS3("runBackfill Function", () => {
+    const bucket = `hywep-backfill-test-${Date.now()}`;
+    const rawData = readJsonFile(path.join(__dirname, "/data/local-raw-data.json"));
+
+    beforeAll(async () => {
+        process.env.STAGE ??= "dev";
+        process.env.AWS_REGION ??= "ap-northeast-2";
+        process.env.SINKS = "local";
+        resetConfig();
+
+        const client = new S3Client({region: process.env.AWS_REGION, endpoint: process.env.S3_ENDPOINT, forcePathStyle: true});
+        await client.send(new CreateBucketCommand({Bucket: bucket}));
+        for (const [index, key] of ["2024/crawl-1.json", "2024/crawl-2.json"].entries()) {
+            await client.send(new PutObjectCommand({
+                Bucket: bucket,
+                Key: key,
+                Body: JSON.stringify(rawData.slice(index * 10, index * 10 + 10)),
+            }));
+        }
+        client.destroy();
+    });
+
+    test("should resume a dry run from its checkpoint", async () => {
+        const options = {bucket, prefix: "2024/", mode: "dry-run" as const, concurrency: 2, checkpoint: "test"};
+
+        const first = await runBackfill(options);
+        expect(first.objects.map((object) => object.key)).toEqual(["2024/crawl-1.json", "2024/crawl-2.json"]);
+        expect(first.objects[0]).toMatchObject({total: 10, failed: 0});
+
+        const second = await runBackfill(options);
+        expect(second).toMatchObject({skipped: 2, objects: []});
+
+        await expect(runBackfill({...options, mode: "diff-only"})).rejects.toThrow("different options");
+    });
+});
@@ -0,0 +1,62 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {gzipSync} from "node:zlib";
+import {readRawPostings, run} from "../cli/cli";
+import {readJsonFile} from "./utils";
+
+describe("hywep-etl CLI", () => {
+    const rawPath = path.join(__dirname, "/data/local-raw-data.json");
+    let tmpDir: string;
+    let stdout: jest.SpyInstance;
+
+    beforeEach(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "hywep-etl-"));
+        stdout = jest.spyOn(process.stdout, "write").mockImplementation(() => true);
+        jest.spyOn(process.stderr, "write").mockImplementation(() => true);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        fs.rmSync(tmpDir, {recursive: true, force: true});
+    });
+
+    test("should transform a single posting to ndjson", async () => {
+        const out = path.join(tmpDir, "processed.ndjson");
+
+        await expect(run(["transform", rawPath, "--id", "17990", "--format", "ndjson", "--out", out])).resolves.toBe(0);
+
+        const lines = fs.readFileSync(out, "utf-8").trim().split("\n");
+        expect(lines).toHaveLength(1);
+        expect(JSON.parse(lines[0])).toMatchObject({id: 17990, organizationName: "(주)로보티즈"});
+    });
+
+    test("should report field-level changes against a previous file", async () => {
+        const previousPath = path.join(tmpDir, "previous.json");
+        await run(["transform", rawPath, "--id", "17990", "--out", previousPath]);
+
+        const previous = readJsonFile(previousPath);
+        previous[0].applicantCount = 3;
+        fs.writeFileSync(previousPath, JSON.stringify(previous));
+
+        await expect(run(["transform", rawPath, "--id", "17990", "--diff", previousPath])).resolves.toBe(0);
+
+        const report = stdout.mock.calls.map(([chunk]) => chunk).join("");
+        expect(report).toContain("applicantCount: 3 -> 4");
+        expect(report).toContain("0 added, 1 changed, 0 removed, 0 unchanged");
+    });
+
+    test("should read NDJSON and gzipped crawls like the raw crawl bucket", async () => {
+        const raw = readJsonFile(rawPath).slice(0, 3);
+        fs.writeFileSync(path.join(tmpDir, "crawl-1.ndjson.gz"), gzipSync(raw.slice(0, 2).map((posting: any) => JSON.stringify(posting)).join("\n")));
+        fs.writeFileSync(path.join(tmpDir, "crawl-2.json"), JSON.stringify(raw.slice(2)));
+        fs.writeFileSync(path.join(tmpDir, "notes.txt"), "not a crawl");
+
+        await expect(readRawPostings(tmpDir)).resolves.toEqual(raw);
+        await expect(readRawPostings(path.join(tmpDir, "crawl-1.ndjson.gz"))).resolves.toEqual(raw.slice(0, 2));
+    });
+
+    test("should reject an unknown format", async () => {
+        await expect(run(["transform", rawPath, "--format", "xml"])).resolves.toBe(2);
+    });
+});
@@ -0,0 +1,87 @@
+import {loadConfig, resetConfig} from "../config/config";
+
+describe("loadConfig Function", () => {
+    const baseEnv = {STAGE: "dev", AWS_REGION: "ap-northeast-2", RECRUIT_TABLE: "hywep-recruit-dev"};
+
+    test("should load the defaults of a minimal environment", () => {
+        const config = loadConfig(baseEnv);
+
+        expect(config).toMatchObject({
+            stage: "dev",
+            region: "ap-northeast-2",
+            sinks: ["dynamodb"],
+            recruitTable: "hywep-recruit-dev",
+            localSinkDir: "processed",
+            batchSize: 200,
+            endpoints: {dynamodb: undefined, s3: undefined},
+        });
+    });
+
+    test("should parse the sink list and endpoint overrides", () => {
+        const config = loadConfig({
+            ...baseEnv,
+            SINKS: "dynamodb, s3",
+            DYNAMODB_ENDPOINT: "http://localhost:8000",
+            S3_ENDPOINT: "http://localhost:4566",
+        });
+
+        expect(config.sinks).toEqual(["dynamodb", "s3"]);
+        expect(config.endpoints).toEqual({dynamodb: "http://localhost:8000", s3: "http://localhost:4566"});
+    });
+
+    test("should report every invalid setting at once", () => {
+        const load = () => loadConfig({STAGE: "staging", SINKS: "dynamodb,elasticsearch", S3_ENDPOINT: "localhost", MAX_FAILURE_RATIO: "2", BATCH_SIZE: "0"});
+
+        expect(load).toThrow("STAGE must be one of dev, qa, prod");
+        expect(load).toThrow("AWS_REGION is required");
+        expect(load).toThrow("RECRUIT_TABLE is required when the dynamodb sink is enabled");
+        expect(load).toThrow("ELASTICSEARCH_ENDPOINT is required when the elasticsearch sink is enabled");
+        expect(load).toThrow("S3_ENDPOINT must be an http(s) URL");
+        expect(load).toThrow("MAX_FAILURE_RATIO must be a number between 0 and 1");
+        expect(load).toThrow("BATCH_SIZE must be a positive integer");
+    });
+
+    test("should not require settings of disabled sinks", () => {
+        expect(() => loadConfig({STAGE: "dev", AWS_REGION: "ap-northeast-2", SINKS: "local"})).not.toThrow();
+    });
+
+    test("should default the sinks by stage", () => {
+        const qaEnv = {STAGE: "qa", AWS_REGION: "ap-northeast-2", RECRUIT_TABLE: "hywep-recruit-qa", ORGANIZATION_TABLE: "hywep-recruit-organizations-qa"};
+
+        expect(loadConfig(baseEnv).sinks).toEqual(["dynamodb"]);
+        expect(loadConfig(qaEnv).sinks).toEqual(["dynamodb", "organizations"]);
+    });
+
+    test("should reject local development settings outside dev", () => {
+        const load = () => loadConfig({STAGE: "prod", AWS_REGION: "ap-northeast-2", SINKS: "local", S3_ENDPOINT: "http://localhost:4566"});
+
+        expect(load).toThrow("the local sink cannot be enabled in prod");
+        expect(load).toThrow("S3_ENDPOINT cannot be overridden in prod");
+    });
+
+    test("should read the optional history table", () => {
+        expect(loadConfig(baseEnv).historyTable).toBeUndefined();
+        expect(loadConfig({...baseEnv, HISTORY_TABLE: "hywep-recruit-history-dev"}).historyTable).toBe("hywep-recruit-history-dev");
+    });
+
+    test("should require the organization table for the organizations sink", () => {
+        expect(() => loadConfig({...baseEnv, SINKS: "dynamodb,organizations"}))
+            .toThrow("ORGANIZATION_TABLE is required when the organizations sink is enabled");
+    });
+});
+
+describe("Lambda Cold Start", () => {
+    const env = process.env;
+
+    afterEach(() => {
+        process.env = env;
+        resetConfig();
+    });
+
+    test("should fail to load the handler with an invalid configuration", () => {
+        process.env = {...env, AWS_LAMBDA_FUNCTION_NAME: "hywep-recruit-etl-dev-process", STAGE: "staging"};
+        resetConfig();
+
+        expect(() => jest.isolateModules(() => require("../lambda"))).toThrow("STAGE must be one of dev, qa, prod");
+    });
+});
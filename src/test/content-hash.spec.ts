@@ -0,0 +1,33 @@
+import * as path from "node:path";
+import {computeContentHash} from "../aws/dynamo";
+import {transformData} from "../lambda";
+import {readJsonFile} from "./utils";
+
+describe("computeContentHash Function", () => {
+    const crawledData = readJsonFile(path.join(__dirname, "/data/local-raw-data.json"));
+
+    test("should not depend on key order", () => {
+        const posting = transformData(crawledData[0]);
+        const reversed = Object.fromEntries(Object.entries(posting).reverse());
+
+        expect(computeContentHash(reversed)).toBe(computeContentHash(posting));
+    });
+
+    test("should ignore bookkeeping attributes", () => {
+        const posting = transformData(crawledData[0]);
+        const stored = {
+            ...posting,
+            contentHash: "previous",
+            firstSeenAt: "2024-11-01T00:00:00.000Z",
+            lastSeenAt: "2024-11-02T00:00:00.000Z",
+        };
+
+        expect(computeContentHash(stored)).toBe(computeContentHash(posting));
+    });
+
+    test("should change when the content changes", () => {
+        const posting = transformData(crawledData[0]);
+
+        expect(computeContentHash({...posting, applicantCount: 5})).not.toBe(computeContentHash(posting));
+    });
+});
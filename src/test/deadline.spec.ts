@@ -0,0 +1,83 @@
+import {normalizeDeadlineTime, toSeoulTimestamp} from "../util/date";
+import {deriveStatus} from "../internship/internship";
+import {transformData} from "../lambda";
+import {validateRecruitPosting} from "../posting/posting";
+
+describe("normalizeDeadlineTime Function", () => {
+    test.each([
+        ["18시까지", "18:00"],
+        ["23시 59분까지", "23:59"],
+        ["14:30까지", "14:30"],
+        ["오전 11시 59분까지", "11:59"],
+        ["오후 6시까지", "18:00"],
+        ["오후 5시 30분까지", "17:30"],
+        ["24시까지", "24:00"],
+        ["자정까지", "24:00"],
+        ["밤 12시까지", "24:00"],
+        ["오전 12시까지", "00:00"],
+        ["정오까지", "12:00"],
+        ["", "24:00"],
+        ["마감일까지", "24:00"],
+    ])("should normalize %s", (time, expected) => {
+        expect(normalizeDeadlineTime(time)).toBe(expected);
+    });
+});
+
+describe("toSeoulTimestamp Function", () => {
+    test("should combine the date and the time in +09:00", () => {
+        expect(toSeoulTimestamp("2024-11-04", "18:00")).toBe("2024-11-04T18:00:00+09:00");
+        expect(toSeoulTimestamp("2024-11-04", "00:00")).toBe("2024-11-04T00:00:00+09:00");
+    });
+
+    test("should treat 24:00 and a missing time as the end of the day", () => {
+        expect(toSeoulTimestamp("2024-11-04", "24:00")).toBe("2024-11-04T23:59:59+09:00");
+        expect(toSeoulTimestamp("2024-11-04")).toBe("2024-11-04T23:59:59+09:00");
+    });
+
+    test("should reject an invalid date", () => {
+        expect(toSeoulTimestamp("2024-02-30", "18:00")).toBeNull();
+    });
+});
+
+describe("deriveStatus Function", () => {
+    const deadlineAt = "2024-11-04T23:59:59+09:00";
+
+    test("should agree with the crawled status", () => {
+        expect(deriveStatus(true, deadlineAt, "2024-11-04T14:00:00.000Z")).toEqual({status: true});
+        expect(deriveStatus(false, deadlineAt, "2024-11-04T15:00:00.000Z")).toEqual({status: false});
+    });
+
+    test("should close a posting still listed as open after its deadline", () => {
+        expect(deriveStatus(true, deadlineAt, "2024-11-04T15:00:00.000Z")).toEqual({status: false, conflict: "OPEN_AFTER_DEADLINE"});
+    });
+
+    test("should flag a posting closed before its deadline", () => {
+        expect(deriveStatus(false, deadlineAt, "2024-11-01T00:00:00.000Z")).toEqual({status: false, conflict: "CLOSED_BEFORE_DEADLINE"});
+    });
+});
+
+describe("Deadline of a Posting", () => {
+    const raw = {"id": "1", "실습기관 진행상태": "접수중", "모집마감일": "2024-11-04", "마감시간": "오후 6시까지"};
+
+    test("should store the deadline as a timestamp in Asia/Seoul", () => {
+        const posting = transformData(raw);
+
+        expect(posting).toMatchObject({deadlineTime: "18:00", applicationDeadlineAt: "2024-11-04T18:00:00+09:00", status: true});
+        expect(validateRecruitPosting(posting).filter(({field}) => field === "applicationDeadlineAt")).toEqual([]);
+    });
+
+    test("should accept 24:00 but no later time", () => {
+        const errorsOf = (deadlineTime: string) => validateRecruitPosting({...transformData(raw), deadlineTime})
+            .filter(({field}) => field === "deadlineTime");
+
+        expect(errorsOf("24:00")).toEqual([]);
+        expect(errorsOf("24:59")).toHaveLength(1);
+    });
+
+    test("should derive the status from the crawl time", () => {
+        expect(transformData(raw, {crawledAt: "2024-11-04T08:59:00.000Z"})).toMatchObject({status: true});
+
+        const closed = transformData(raw, {crawledAt: "2024-11-04T09:01:00.000Z"});
+        expect(closed).toMatchObject({status: false, statusConflict: "OPEN_AFTER_DEADLINE"});
+    });
+});
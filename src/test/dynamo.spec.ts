@@ -0,0 +1,183 @@
+import {
+    BatchGetItemCommand,
+    BatchWriteItemCommand,
+    ConditionalCheckFailedException,
+    DynamoDBClient,
+    ProvisionedThroughputExceededException,
+    PutItemCommand,
+    UpdateItemCommand
+} from "@aws-sdk/client-dynamodb";
+import {marshall, unmarshall} from "@aws-sdk/util-dynamodb";
+import {markPostingsRemoved, saveToDynamoDB, StoredState} from "../aws/dynamo";
+import {resetConfig} from "../config/config";
+
+const conditionFailed = () => new ConditionalCheckFailedException({message: "The conditional request failed", $metadata: {}});
+let send: jest.SpyInstance;
+
+beforeEach(() => {
+    process.env.STAGE = "dev";
+    process.env.AWS_REGION = "ap-northeast-2";
+    process.env.RECRUIT_TABLE = "hywep-recruit-test";
+    process.env.SINKS = "dynamodb";
+    delete process.env.HISTORY_TABLE;
+    resetConfig();
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    send = jest.spyOn(DynamoDBClient.prototype, "send").mockImplementation(async () => ({}));
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+    resetConfig();
+});
+
+describe("saveToDynamoDB Function", () => {
+    const seenAt = "2024-11-10T00:00:00.000Z";
+
+    const puts = () => send.mock.calls
+        .map(([command]) => command)
+        .filter((command) => command instanceof PutItemCommand);
+
+    test("should write a new posting only if no row exists yet", async () => {
+        const summary = await saveToDynamoDB([{id: 1, status: true}], seenAt, new Map());
+
+        expect(summary).toEqual({added: 1, updated: 0, unchanged: 0, skipped: 0});
+        const [put] = puts();
+        expect(put.input.ConditionExpression).toBe("attribute_not_exists(id)");
+        expect(unmarshall(put.input.Item)).toMatchObject({id: 1, firstSeenAt: seenAt, lastSeenAt: seenAt, version: 1});
+    });
+
+    test("should write a changed posting only at the version that was read", async () => {
+        const stored = new Map<number, StoredState>([[1, {contentHash: "old", firstSeenAt: "2024-11-01T00:00:00.000Z", version: 2}]]);
+
+        const summary = await saveToDynamoDB([{id: 1, status: false}], seenAt, stored);
+
+        expect(summary).toEqual({added: 0, updated: 1, unchanged: 0, skipped: 0});
+        const [put] = puts();
+        expect(put.input.ConditionExpression).toBe("#version = :version AND (attribute_not_exists(lastSeenAt) OR lastSeenAt <= :seenAt)");
+        expect(unmarshall(put.input.ExpressionAttributeValues)).toEqual({":version": 2, ":seenAt": seenAt});
+        expect(unmarshall(put.input.Item)).toMatchObject({firstSeenAt: "2024-11-01T00:00:00.000Z", version: 3});
+    });
+
+    test("should not write over a posting seen by a newer crawl", async () => {
+        const stored = new Map<number, StoredState>([[1, {contentHash: "new", lastSeenAt: "2024-11-20T00:00:00.000Z", version: 4}]]);
+
+        const summary = await saveToDynamoDB([{id: 1, status: true}], seenAt, stored);
+
+        expect(summary).toEqual({added: 0, updated: 0, unchanged: 0, skipped: 1});
+        expect(send).not.toHaveBeenCalled();
+    });
+
+    test("should skip a row written concurrently since it was read", async () => {
+        send.mockImplementation(async (command) => {
+            if (command instanceof PutItemCommand) {
+                throw conditionFailed();
+            }
+            return {};
+        });
+        const stored = new Map<number, StoredState>();
+
+        const summary = await saveToDynamoDB([{id: 1, status: true}], seenAt, stored);
+
+        expect(summary).toEqual({added: 0, updated: 0, unchanged: 0, skipped: 1});
+        expect(stored.has(1)).toBe(false);
+    });
+
+    test("should record the version of a posting after writing it", async () => {
+        process.env.HISTORY_TABLE = "hywep-recruit-history-test";
+        resetConfig();
+
+        await saveToDynamoDB([{id: 1, status: true}], seenAt, new Map(), "a.json");
+
+        const [put, history] = send.mock.calls.map(([command]) => command);
+        expect(put).toBeInstanceOf(PutItemCommand);
+        expect(history).toBeInstanceOf(BatchWriteItemCommand);
+        expect(unmarshall(history.input.RequestItems["hywep-recruit-history-test"][0].PutRequest.Item)).toMatchObject({
+            postingId: 1,
+            version: 1,
+            sourceKey: "a.json",
+            crawledAt: seenAt,
+        });
+    });
+
+    test("should not record a version when the write loses its condition", async () => {
+        process.env.HISTORY_TABLE = "hywep-recruit-history-test";
+        resetConfig();
+        send.mockImplementation(async (command) => {
+            if (command instanceof PutItemCommand) {
+                throw conditionFailed();
+            }
+            return command instanceof BatchGetItemCommand ? {Responses: {}} : {};
+        });
+        const stored = new Map<number, StoredState>([[1, {contentHash: "old", version: 2}]]);
+
+        const summary = await saveToDynamoDB([{id: 1, status: false}], seenAt, stored, "a.json");
+
+        expect(summary).toEqual({added: 0, updated: 0, unchanged: 0, skipped: 1});
+        expect(send.mock.calls.filter(([command]) => command instanceof BatchWriteItemCommand)).toEqual([]);
+    });
+
+    test("should retry a throttled write with backoff", async () => {
+        let throttled = 0;
+        send.mockImplementation(async (command) => {
+            if (command instanceof PutItemCommand && throttled++ < 2) {
+                throw new ProvisionedThroughputExceededException({message: "Rate exceeded", $metadata: {}});
+            }
+            return {};
+        });
+
+        const summary = await saveToDynamoDB([{id: 1, status: true}], seenAt, new Map());
+
+        expect(summary).toEqual({added: 1, updated: 0, unchanged: 0, skipped: 0});
+        expect(puts()).toHaveLength(3);
+    });
+});
+
+describe("markPostingsRemoved Function", () => {
+    const removedAt = "2024-11-20T00:00:00.000Z";
+
+    test("should close the postings and record the removal as a version", async () => {
+        process.env.HISTORY_TABLE = "hywep-recruit-history-test";
+        resetConfig();
+        send.mockImplementation(async (command) => (command instanceof UpdateItemCommand
+            ? {Attributes: marshall({id: 1, status: true, version: 2, contentHash: "abc"})}
+            : {}));
+
+        const summary = await markPostingsRemoved([1], "Not present in crawl b.json", removedAt, "b.json");
+
+        expect(summary).toEqual({removed: 1, skipped: 0});
+        const [update, history] = send.mock.calls.map(([command]) => command);
+        expect(update).toBeInstanceOf(UpdateItemCommand);
+        expect(update.input.ConditionExpression).toBe("attribute_exists(id)");
+        expect(unmarshall(update.input.ExpressionAttributeValues)).toMatchObject({":closed": false, ":removedAt": removedAt});
+        expect(history).toBeInstanceOf(BatchWriteItemCommand);
+        expect(unmarshall(history.input.RequestItems["hywep-recruit-history-test"][0].PutRequest.Item)).toEqual({
+            postingId: 1,
+            version: 3,
+            changes: [
+                {field: "removedAt", current: removedAt},
+                {field: "removedReason", current: "Not present in crawl b.json"},
+                {field: "status", previous: true, current: false},
+            ],
+            sourceKey: "b.json",
+            crawledAt: removedAt,
+        });
+    });
+
+    test("should skip a posting deleted since it was listed", async () => {
+        send.mockImplementation(async (command) => {
+            if (command instanceof UpdateItemCommand && unmarshall(command.input.Key).id === 1) {
+                throw conditionFailed();
+            }
+            return {Attributes: marshall({id: 2, status: true, version: 1})};
+        });
+
+        await expect(markPostingsRemoved([1, 2], "gone", removedAt)).resolves.toEqual({removed: 1, skipped: 1});
+    });
+
+    test("should fail on other errors", async () => {
+        send.mockRejectedValue(new Error("throttled"));
+
+        await expect(markPostingsRemoved([1], "gone", removedAt)).rejects.toThrow("throttled");
+    });
+});
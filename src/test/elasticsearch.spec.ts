@@ -0,0 +1,53 @@
+import * as path from "node:path";
+import {Client as ElasticClient} from "@elastic/elasticsearch";
+import {saveToElasticsearch} from "../aws/elasticsearch";
+import {resetConfig} from "../config/config";
+import {transformData} from "../lambda";
+import {readJsonFile} from "./utils";
+
+/**
+ * Runs only against a local Elasticsearch container (see docker-compose.yml),
+ * enabled by setting ELASTICSEARCH_ENDPOINT.
+ */
+const describeWithElasticsearch = process.env.ELASTICSEARCH_ENDPOINT ? describe : describe.skip;
+
+describeWithElasticsearch("saveToElasticsearch Function", () => {
+    const index = "hywep-recruit-test";
+    let client: ElasticClient;
+    const crawledData = readJsonFile(path.join(__dirname, "/data/local-raw-data.json"));
+    const transformedData = crawledData.slice(0, 20).map((data: any) => transformData(data));
+
+    beforeAll(async () => {
+        client = new ElasticClient({node: process.env.ELASTICSEARCH_ENDPOINT});
+        process.env.STAGE ??= "dev";
+        process.env.AWS_REGION ??= "ap-northeast-2";
+        process.env.SINKS = "elasticsearch";
+        process.env.ELASTICSEARCH_INDEX = index;
+        resetConfig();
+        await client.indices.delete({index}, {ignore: [404]});
+    });
+
+    afterAll(async () => {
+        await client.indices.delete({index}, {ignore: [404]});
+        await client.close();
+    });
+
+    test("should create the index with the nori mapping", async () => {
+        await saveToElasticsearch(transformedData);
+
+        const mapping = await client.indices.getMapping({index});
+        const properties = mapping[index].mappings.properties;
+
+        expect(properties.organizationName).toMatchObject({type: "text", analyzer: "korean"});
+        expect(properties.majors).toMatchObject({type: "keyword"});
+        expect(properties.startDate).toMatchObject({type: "date"});
+    });
+
+    test("should not duplicate documents when reprocessing", async () => {
+        await saveToElasticsearch(transformedData);
+        await client.indices.refresh({index});
+
+        const {count} = await client.count({index});
+        expect(count).toBe(new Set(transformedData.map((item) => item.id)).size);
+    });
+});
@@ -0,0 +1,85 @@
+import {diffFields, PostingVersion, rebuildPosting} from "../posting/history";
+
+describe("diffFields Function", () => {
+    test("should list every field of a new posting", () => {
+        expect(diffFields(undefined, {id: 1, status: true})).toEqual([
+            {field: "id", previous: undefined, current: 1},
+            {field: "status", previous: undefined, current: true},
+        ]);
+    });
+
+    test("should list only the changed top-level fields with their whole values", () => {
+        const stored = {id: 1, status: true, applicantCount: 3, interviewInfo: {interviewType: "대면", finalResultDate: null}};
+        const crawled = {id: 1, status: false, applicantCount: 3, interviewInfo: {interviewType: "대면", finalResultDate: "2024-12-20"}};
+
+        expect(diffFields(stored, crawled)).toEqual([
+            {field: "interviewInfo", previous: stored.interviewInfo, current: crawled.interviewInfo},
+            {field: "status", previous: true, current: false},
+        ]);
+    });
+
+    test("should ignore key order and the given fields", () => {
+        const stored = {id: 1, majorMatches: [{term: "전산", via: "group"}], lastSeenAt: "2024-11-01T00:00:00.000Z"};
+        const crawled = {id: 1, majorMatches: [{via: "group", term: "전산"}]};
+
+        expect(diffFields(stored, crawled, ["lastSeenAt"])).toEqual([]);
+    });
+
+    test("should report a removed field without a current value", () => {
+        expect(diffFields({id: 1, removedAt: "2024-11-20T00:00:00.000Z"}, {id: 1})).toEqual([
+            {field: "removedAt", previous: "2024-11-20T00:00:00.000Z", current: undefined},
+        ]);
+    });
+});
+
+describe("rebuildPosting Function", () => {
+    const versions: PostingVersion[] = [
+        {
+            postingId: 1,
+            version: 2,
+            changes: [{field: "applicantCount", previous: 3, current: 7}, {field: "deadlineTime", previous: "18:00", current: undefined}],
+            sourceKey: "crawl-2.json",
+            crawledAt: "2024-11-10T00:00:00.000Z",
+        },
+        {
+            postingId: 1,
+            version: 1,
+            changes: [
+                {field: "id", previous: undefined, current: 1},
+                {field: "applicantCount", previous: undefined, current: 3},
+                {field: "deadlineTime", previous: undefined, current: "18:00"},
+                {field: "status", previous: undefined, current: true},
+            ],
+            sourceKey: "crawl-1.json",
+            crawledAt: "2024-11-01T00:00:00.000Z",
+        },
+        {
+            postingId: 1,
+            version: 3,
+            changes: [{field: "status", previous: true, current: false}],
+            sourceKey: "crawl-3.json",
+            crawledAt: "2024-11-20T00:00:00.000Z",
+        },
+    ];
+
+    test("should replay the versions crawled up to the given time", () => {
+        expect(rebuildPosting(versions, "2024-11-01T00:00:00.000Z")).toEqual({id: 1, applicantCount: 3, deadlineTime: "18:00", status: true});
+        expect(rebuildPosting(versions, "2024-11-15T00:00:00.000Z")).toEqual({id: 1, applicantCount: 7, status: true});
+        expect(rebuildPosting(versions, "2025-01-01T00:00:00.000Z")).toEqual({id: 1, applicantCount: 7, status: false});
+    });
+
+    test("should return null before the posting was first stored", () => {
+        expect(rebuildPosting(versions, "2024-10-01T00:00:00.000Z")).toBeNull();
+    });
+
+    test("should rebuild the latest version from the changes a crawl records", () => {
+        const first = {id: 1, status: true, applicantCount: 3};
+        const second = {id: 1, status: true, applicantCount: 9, deadlineTime: "12:00"};
+        const history: PostingVersion[] = [
+            {postingId: 1, version: 1, changes: diffFields(undefined, first), sourceKey: "a.json", crawledAt: "2024-11-01T00:00:00.000Z"},
+            {postingId: 1, version: 2, changes: diffFields(first, second), sourceKey: "b.json", crawledAt: "2024-11-02T00:00:00.000Z"},
+        ];
+
+        expect(rebuildPosting(history, "2024-11-02T00:00:00.000Z")).toEqual(second);
+    });
+});
@@ -0,0 +1,94 @@
+import {parseInternshipDetails, parseWeeklyPlan} from "../internship/details";
+import {transformData} from "../lambda";
+
+describe("parseInternshipDetails Function", () => {
+    const details = "*직무명 : 자율주행 로봇의 메커니즘 컨셉 아이디어 검토\n\n*교육목표 : \n- 다양한 메카니즘 컨셉 아이디어 도출\n\n" +
+        "*직무개요 : \n1. 시장 기술 조사\n2. 3D 모델링을 활용하여 아이디어 시각적 구현\n\n" +
+        "*운영/지도계획 :\n- 1주차 : 메커니즘 시장 기술\n  조사 (인터넷, 특허 출원 현황 활용)\n- 2~3주차 : 기구적 아이디어 검토\n- 8주차 : 결과물 점검 및 평가";
+
+    test("should split the details into their sections", () => {
+        expect(parseInternshipDetails(details)).toEqual({
+            jobTitle: "자율주행 로봇의 메커니즘 컨셉 아이디어 검토",
+            goals: "- 다양한 메카니즘 컨셉 아이디어 도출",
+            jobOverview: "1. 시장 기술 조사\n2. 3D 모델링을 활용하여 아이디어 시각적 구현",
+            operationGuidance: "- 1주차 : 메커니즘 시장 기술\n  조사 (인터넷, 특허 출원 현황 활용)\n- 2~3주차 : 기구적 아이디어 검토\n- 8주차 : 결과물 점검 및 평가",
+            weeklyPlan: [
+                {weeks: [1, 1], activity: "메커니즘 시장 기술 조사 (인터넷, 특허 출원 현황 활용)"},
+                {weeks: [2, 3], activity: "기구적 아이디어 검토"},
+                {weeks: [8, 8], activity: "결과물 점검 및 평가"},
+            ],
+            coverage: 1,
+        });
+    });
+
+    test.each([
+        ["*직무 개요 : 테스트", "jobOverview"],
+        ["*직무개요 : 테스트", "jobOverview"],
+        ["*운영/ 지도 계획 : 테스트", "operationGuidance"],
+        ["*운영/지도계획 : 테스트", "operationGuidance"],
+        ["* 목표 성과물 : 테스트", "targetOutcomes"],
+    ])("should recognize the header of %s", (text, field) => {
+        expect(parseInternshipDetails(text)[field]).toBe("테스트");
+    });
+
+    test("should keep unknown sections and leading text apart from the known ones", () => {
+        const parsed = parseInternshipDetails("실습 안내\n*직무명 : 마케팅\n*참조 : 홈페이지 참고");
+
+        expect(parsed.jobTitle).toBe("마케팅");
+        expect(parsed.preamble).toBe("실습 안내");
+        expect(parsed.other).toEqual({"참조": "홈페이지 참고"});
+        expect(parsed.coverage).toBe(0.33);
+    });
+
+    test("should not start a section at a step of the plan", () => {
+        const parsed = parseInternshipDetails("*운영/지도계획 :\n*1주차 : 오리엔테이션\n*2주차 : 실무 교육");
+
+        expect(parsed.other).toBeUndefined();
+        expect(parsed.weeklyPlan).toEqual([
+            {weeks: [1, 1], activity: "오리엔테이션"},
+            {weeks: [2, 2], activity: "실무 교육"},
+        ]);
+    });
+
+    test("should be stored on the posting", () => {
+        const posting = transformData({"id": "1", "실습내용": details});
+
+        expect(posting.internshipDetails.weeklyPlan).toHaveLength(3);
+        expect(posting.internshipDetails.coverage).toBe(1);
+    });
+});
+
+describe("parseWeeklyPlan Function", () => {
+    test.each([
+        ["1 주차 : 개발환경 구축", [1, 1]],
+        ["2 ~ 4 주차 : 지그 개발", [2, 4]],
+        ["1-4주차 : 오리엔테이션", [1, 4]],
+        ["1주차-2주차 : 오리엔테이션", [1, 2]],
+        ["9주차 ~ 24주차 : 실무", [9, 24]],
+        ["1주-4주차 : 오리엔테이션", [1, 4]],
+        ["￭ 7,8주차 : 결과정리 및 보고", [7, 8]],
+        ["[3~4주차: 현장 실습] 개선과제 수행", [3, 4]],
+        ["(1주차) 오리엔테이션", [1, 1]],
+        ["2개월 차 : 실무", [5, 8]],
+        ["3달차 : 실무", [9, 12]],
+    ])("should read the weeks of %s", (plan, weeks) => {
+        expect(parseWeeklyPlan(plan).map((item) => item.weeks)).toEqual([weeks]);
+    });
+
+    test("should collect the lines under a week written on its own line", () => {
+        expect(parseWeeklyPlan("1주차\n- 회사소개\n- OJT 직무 교육\n\n2주차\n- 실무 교육")).toEqual([
+            {weeks: [1, 1], activity: "회사소개\nOJT 직무 교육"},
+            {weeks: [2, 2], activity: "실무 교육"},
+        ]);
+    });
+
+    test("should not take unrelated bullets into a step", () => {
+        expect(parseWeeklyPlan("- 1주차 ~ 2주차 : E-manual 숙지\n- 전 기간 : 고객 기술 지원")).toEqual([
+            {weeks: [1, 2], activity: "E-manual 숙지"},
+        ]);
+    });
+
+    test("should skip numbered lines and impossible ranges", () => {
+        expect(parseWeeklyPlan("1. 테스트 계획 수립\n17~202주차 : 실무\n4~2주차 : 실무")).toEqual([]);
+    });
+});
@@ -0,0 +1,69 @@
+import {handleInternshipName, handleInternshipPeriod, parseInternshipPeriod} from "../internship/internship";
+import {validateRecruitPosting} from "../posting/posting";
+
+describe("parseInternshipPeriod Function", () => {
+    test("should normalize both dates of the period", () => {
+        expect(parseInternshipPeriod("2025.1.6 ~ 2025. 2. 28")).toEqual({startDate: "2025-01-06", endDate: "2025-02-28"});
+        expect(parseInternshipPeriod("2024-12-23 ~ 2025-06-30")).toEqual({startDate: "2024-12-23", endDate: "2025-06-30"});
+    });
+
+    test("should return null for dates that are missing or not real", () => {
+        expect(parseInternshipPeriod("2025-02-30 ~ 2025-06-30")).toEqual({startDate: null, endDate: "2025-06-30"});
+        expect(parseInternshipPeriod("협의 후 결정")).toEqual({startDate: null, endDate: null});
+    });
+});
+
+describe("handleInternshipPeriod Function", () => {
+    const name = "2024년도 겨울학기 단기 현장실습(,2024.12.23~2025.02.28)";
+
+    test("should read the program period from the internship name", () => {
+        const posting: Record<string, any> = {};
+        handleInternshipName(posting, name);
+
+        expect(posting).toEqual({
+            year: 2024,
+            semester: "겨울학기",
+            programType: "단기",
+            programPeriod: {start: "2024-12-23", end: "2025-02-28"},
+        });
+    });
+
+    test("should set the duration of a period inside the program", () => {
+        const posting: Record<string, any> = {};
+        handleInternshipName(posting, name);
+        handleInternshipPeriod(posting, "2025-01-06 ~ 2025-02-28");
+
+        expect(posting).toMatchObject({startDate: "2025-01-06", endDate: "2025-02-28", durationDays: 54, durationWeeks: 8});
+        expect(posting.warnings).toBeUndefined();
+    });
+
+    test("should warn when the period falls outside the program", () => {
+        const posting: Record<string, any> = {};
+        handleInternshipName(posting, name);
+        handleInternshipPeriod(posting, "2024-12-23 ~ 2025-06-30");
+
+        expect(posting.warnings).toEqual([{
+            field: "internshipPeriod",
+            message: "falls outside the program period 2024-12-23 ~ 2025-02-28",
+            value: "2024-12-23 ~ 2025-06-30",
+        }]);
+    });
+
+    test("should fail validation for malformed or reversed ranges", () => {
+        const malformed: Record<string, any> = {};
+        handleInternshipPeriod(malformed, "2025/13/01 ~");
+        const reversed: Record<string, any> = {};
+        handleInternshipPeriod(reversed, "2025-06-30 ~ 2025-01-01");
+        handleInternshipName(reversed, "2024년도 겨울학기 단기 현장실습(,2025.02.28~2024.12.23)");
+
+        expect(validateRecruitPosting(malformed)).toEqual(expect.arrayContaining([
+            {field: "startDate", message: "must be a date in YYYY-MM-DD format", value: null},
+            {field: "endDate", message: "must be a date in YYYY-MM-DD format", value: null},
+        ]));
+        expect(validateRecruitPosting(reversed)).toEqual(expect.arrayContaining([
+            expect.objectContaining({field: "endDate", message: "must not be before startDate"}),
+            expect.objectContaining({field: "programPeriod", message: "end must not be before start"}),
+        ]));
+        expect(reversed.durationDays).toBeUndefined();
+    });
+});
@@ -1,27 +1,26 @@
 import * as path from "node:path";
-import {readJsonFile, writeJsonFile} from "./utils";
+import {transformData} from "../lambda";
+import {InterviewSchedule, parseInterviewSchedule} from "../internship/interview";
+import {isIsoDate} from "../util/date";
+import {readJsonFile} from "./utils";
 
 /**
- * Validates date strings in an object.
- * @param interviewInfo - Object containing key-value pairs for validation.
+ * Validates the dates of a parsed interview schedule.
+ * @param interviewInfo - The parsed interview schedule.
  * @returns Object with validation results.
  */
-function validateInterviewDates(interviewInfo: Record<string, string>): Record<string, boolean> {
-    const dateFields = ["서류 접수 기간", "서류 합격발표", "최종 합격발표"];
-    const datePattern = /^~?\d{4}-\d{2}-\d{2}/;
+function validateInterviewDates(interviewInfo: InterviewSchedule): Record<string, boolean> {
+    const dateFields = {
+        applicationPeriodStart: interviewInfo.applicationPeriod?.start,
+        applicationPeriodEnd: interviewInfo.applicationPeriod?.end,
+        documentResultDate: interviewInfo.documentResultDate,
+        interviewStart: interviewInfo.interviewDates?.start,
+        interviewEnd: interviewInfo.interviewDates?.end,
+        finalResultDate: interviewInfo.finalResultDate,
+    };
 
     return Object.fromEntries(
-        Object.entries(interviewInfo).map(([key, value]) => {
-            if (!value || value.trim() === "") {
-                return [key, true];
-            }
-
-            if (dateFields.includes(key)) {
-                const match = value.match(datePattern);
-                return [key, !!match];
-            }
-            return [key, true];
-        })
+        Object.entries(dateFields).map(([key, value]) => [key, value == null || isIsoDate(value)])
     );
 }
 
@@ -29,40 +28,18 @@ function validateInterviewDates(interviewInfo: Record<string, string>): Record<s
  * Tests the validateInterviewDates function against provided test data.
  */
 describe("validateInterviewDates Function", () => {
-    const expectedResults: Record<string, boolean>[] = [
-        {
-            "면접유형": true,
-        },
-        {
-            "면접유형": true,
-            "서류 접수 기간": true,
-        },
-        {
-            "면접유형": true,
-            "서류 접수 기간": true,
-            "서류 합격발표": true,
-        },
-        {
-            "면접유형": true,
-            "서류 접수 기간": true,
-            "서류 합격발표": true,
-            "최종 합격발표": true,
-        },
-    ];
-
-    const testData = readJsonFile(path.join(__dirname, "/data/local-processed-data.json"));
+    const testData = readJsonFile(path.join(__dirname, "/data/local-raw-data.json"));
 
     testData.forEach((data, index) => {
         test(`Validation test for case ${index + 1}`, () => {
-            const { interviewInfo } = data;
+            const {interviewInfo} = transformData(data);
             const result = validateInterviewDates(interviewInfo);
 
-            const isValid = expectedResults.some(expected => JSON.stringify(result) === JSON.stringify(expected));
+            const isValid = Object.values(result).every(Boolean);
 
             if (!isValid) {
                 console.error(`Test case ${index + 1} failed.`);
                 console.error("Result:", result);
-                console.error("Expected one of:", expectedResults);
                 console.error("Interview Info:", interviewInfo);
             }
 
@@ -71,3 +48,51 @@ describe("validateInterviewDates Function", () => {
     });
 });
 
+describe("parseInterviewSchedule Function", () => {
+    const header = "면접유형 : 서류전형+면접전형\n\t\t면접일 : \n\t\t내용 : ";
+    const context = {year: 2024, semester: "겨울학기"};
+
+    test("should parse every schedule line into ISO dates", () => {
+        const schedule = parseInterviewSchedule(
+            `${header}*서류 접수 기간 : ~24.11.03 오후 11시59분\n*서류 합격발표 : 24.11.06\n*면접일 : 11. 07~08 (조정 가능)\n*최종합격발표: 11. 11`,
+            context,
+        );
+
+        expect(schedule).toMatchObject({
+            interviewType: "서류전형+면접전형",
+            scheduleStatus: "published",
+            applicationPeriod: {start: null, end: "2024-11-03", endTime: "23:59"},
+            documentResultDate: "2024-11-06",
+            interviewDates: {start: "2024-11-07", end: "2024-11-08", adjustable: true},
+            finalResultDate: "2024-11-11",
+        });
+        expect(schedule.raw.interview).toBe("11. 07~08 (조정 가능)");
+    });
+
+    test("should resolve year-less dates against the program semester", () => {
+        const schedule = parseInterviewSchedule(
+            `${header}*서류 접수 기간 : ~12.16\n*최종합격발표: 01.10`,
+            {year: 2025, semester: "1학기"},
+        );
+
+        expect(schedule.applicationPeriod.end).toBe("2024-12-16");
+        expect(schedule.finalResultDate).toBe("2025-01-10");
+    });
+
+    test("should flag postings for designated students", () => {
+        const schedule = parseInterviewSchedule(`${header}지정연계 학생을 위한 모집공고입니다.`, context);
+
+        expect(schedule.scheduleStatus).toBe("designated");
+        expect(schedule.applicationPeriod).toBeNull();
+        expect(schedule.raw.content).toBe("지정연계 학생을 위한 모집공고입니다.");
+    });
+
+    test("should fall back to the 면접일 header", () => {
+        const schedule = parseInterviewSchedule(
+            "면접유형 : 서류전형+면접전형\n\t\t면접일 : 2024-10-27\n\t\t내용 : *서류 접수 기간 : ~24.10.20",
+            context,
+        );
+
+        expect(schedule.interviewDates).toEqual({start: "2024-10-27", end: "2024-10-27", adjustable: false});
+    });
+});
@@ -0,0 +1,50 @@
+import * as bundledRegions from "../location/regions.json";
+import {normalizeLocation, parseRegionTable} from "../location/location";
+import {transformData} from "../lambda";
+
+describe("normalizeLocation Function", () => {
+    test.each([
+        ["서울시 강남구", "서울특별시", "강남구", "11680"],
+        ["서울 송파구", "서울특별시", "송파구", "11710"],
+        ["서울특별시 강서구", "서울특별시", "강서구", "11500"],
+        ["서울서초구", "서울특별시", "서초구", "11650"],
+        ["경기도 성남시 분당구", "경기도", "성남시 분당구", "41135"],
+        ["성남시 분당구", "경기도", "성남시 분당구", "41135"],
+        ["충남 천안", "충청남도", "천안시", "44130"],
+        ["서울시 구로구 디지털로34길", "서울특별시", "구로구", "11530"],
+        ["세종시 한누리대로", "세종특별자치시", "세종특별자치시", "36110"],
+        ["광주시 오포읍 신현리", "경기도", "광주시", "41610"],
+        ["경기 광주시 오포읍", "경기도", "광주시", "41610"],
+        ["광주 북구 첨단과기로", "광주광역시", "북구", "29170"],
+        ["광주광역시 북구", "광주광역시", "북구", "29170"],
+    ])("should normalize %s", (raw, sido, sigungu, regionCode) => {
+        expect(normalizeLocation(raw)).toEqual({sido, sigungu, regionCode, raw});
+    });
+
+    test("should keep the province when the district is unknown", () => {
+        expect(normalizeLocation("서울 강남대로 123")).toEqual({sido: "서울특별시", sigungu: null, regionCode: "11", raw: "서울 강남대로 123"});
+    });
+
+    test("should not guess a district that exists in several provinces", () => {
+        expect(normalizeLocation("중구")).toEqual({sido: null, sigungu: null, regionCode: null, raw: "중구"});
+    });
+
+    test("should flag unknown locations with a warning", () => {
+        const posting = transformData({"id": "1", "소재지": "미국"});
+
+        expect(posting.location).toEqual({sido: null, sigungu: null, regionCode: null, raw: "미국"});
+        expect(posting.warnings).toEqual([{field: "location", message: "is not a known Korean region", value: "미국"}]);
+    });
+});
+
+describe("parseRegionTable Function", () => {
+    test("should accept the bundled table", () => {
+        expect(() => parseRegionTable(bundledRegions)).not.toThrow();
+    });
+
+    test("should reject codes that do not belong to their province", () => {
+        const table = {version: "test", sido: [{code: "11", name: "서울특별시", sigungu: [{code: "26110", name: "중구"}]}]};
+
+        expect(() => parseRegionTable(table)).toThrow("서울특별시 중구: code must be five digits starting with 11");
+    });
+});
@@ -0,0 +1,34 @@
+import {matchMajors, resolveMajors} from "../major/major";
+
+describe("matchMajors Function", () => {
+    test("should report how each major was matched", () => {
+        const {majors, matches, unmatched} = matchMajors(["간호학과", "신소재"]);
+
+        expect(majors).toEqual(["간호학과", "신소재공학부"]);
+        expect(matches).toEqual([
+            {major: "간호학과", method: "major", term: "간호학과", confidence: 1},
+            {major: "신소재공학부", method: "prefix", term: "신소재", confidence: 0.8},
+        ]);
+        expect(unmatched).toEqual([]);
+    });
+
+    test("should keep the most confident match of a major", () => {
+        const {matches} = matchMajors(["공과대학", "산업공학과"]);
+
+        expect(matches.find((match) => match.major === "산업공학과"))
+            .toEqual({major: "산업공학과", method: "major", term: "산업공학과", confidence: 1});
+    });
+
+    test("should correct typos with a low confidence", () => {
+        const {matches} = matchMajors(["도사공학과"]);
+
+        expect(matches).toEqual([{major: "도시공학과", method: "fuzzy", term: "도사공학과", confidence: 0.5}]);
+    });
+
+    test("should return terms that match nothing", () => {
+        const {majors, unmatched} = resolveMajors("로봇공학과, 간호학과");
+
+        expect(majors).toEqual(["간호학과"]);
+        expect(unmatched).toEqual(["로봇공학과"]);
+    });
+});
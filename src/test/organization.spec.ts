@@ -0,0 +1,118 @@
+import {transformData} from "../lambda";
+import {
+    collectOrganizations,
+    getOrganizationId,
+    mergeOrganization,
+    normalizeOrganizationName,
+    Organization,
+    parseEmployeeCount,
+    parseHomepage,
+    parseListing,
+    parseOrganizationName
+} from "../organization/organization";
+
+describe("parseOrganizationName Function", () => {
+    test("should split off the department", () => {
+        expect(parseOrganizationName("미리디 / 피플팀")).toEqual({name: "미리디", department: "피플팀"});
+        expect(parseOrganizationName("한양전자")).toEqual({name: "한양전자"});
+    });
+
+    test("should keep the dedicated department over the suffix", () => {
+        expect(transformData({"id": "1", "실습기관명": "미리디 / 피플팀"})).toMatchObject({organizationName: "미리디", department: "피플팀"});
+        expect(transformData({"실습기관명": "미리디 / 피플팀", "부서": "인사팀", "id": "1"})).toMatchObject({department: "인사팀"});
+    });
+});
+
+describe("organization metadata", () => {
+    test("should parse employee counts", () => {
+        expect(parseEmployeeCount("150명")).toBe(150);
+        expect(parseEmployeeCount("1,173명")).toBe(1173);
+        expect(parseEmployeeCount("명")).toBeUndefined();
+    });
+
+    test("should parse the listing status and market", () => {
+        expect(parseListing("코스피")).toEqual({isListed: true, market: "KOSPI"});
+        expect(parseListing("코스닥")).toEqual({isListed: true, market: "KOSDAQ"});
+        expect(parseListing("비상장")).toEqual({isListed: false});
+        expect(parseListing("상장예정")).toBeUndefined();
+    });
+
+    test("should drop placeholder homepages", () => {
+        expect(parseHomepage("클릭")).toBeUndefined();
+        expect(parseHomepage("미입력")).toBeUndefined();
+        expect(parseHomepage("www.hanyang.ac.kr")).toBe("http://www.hanyang.ac.kr");
+        expect(parseHomepage("https://www.hanyang.ac.kr/")).toBe("https://www.hanyang.ac.kr/");
+    });
+
+    test("should map labels to enums and warn about unknown ones", () => {
+        const posting = transformData({
+            "id": "1",
+            "실습기관분류": "공공기관/비영리단체",
+            "기관규모": "스타트업",
+            "상장여부": "코스닥",
+            "직원수": "40명",
+            "홈페이지": "클릭",
+        });
+
+        expect(posting).toMatchObject({organizationType: "PUBLIC_INSTITUTION", isListed: true, market: "KOSDAQ", employeeCount: 40});
+        expect(posting.organizationSize).toBeUndefined();
+        expect(posting.homepage).toBeUndefined();
+        expect(posting.warnings).toEqual([{field: "organizationSize", message: "is not a known value", value: "스타트업"}]);
+    });
+});
+
+describe("Organization entity", () => {
+    test("should normalize legal forms, whitespace and case", () => {
+        expect(normalizeOrganizationName("(주)로보티즈")).toBe("로보티즈");
+        expect(normalizeOrganizationName("㈜ 로보티즈")).toBe("로보티즈");
+        expect(normalizeOrganizationName("로보티즈 주식회사")).toBe("로보티즈");
+        expect(normalizeOrganizationName("Hanyang Robotics Co., Ltd.")).toBe("hanyangrobotics");
+        expect(getOrganizationId("(주)로보티즈")).toBe(getOrganizationId("㈜로보티즈"));
+        expect(getOrganizationId("(주)로보티즈")).toMatch(/^org-[0-9a-f]{16}$/);
+    });
+
+    test("should collect one organization per id with counts per program", () => {
+        const organizations = new Map<string, Organization>();
+        const postings = [
+            transformData({"id": "1", "실습기관명": "(주)로보티즈", "직원수": "100명", "현장실습명": "2024년도 겨울학기 단기 현장실습"}),
+            transformData({"id": "2", "실습기관명": "㈜로보티즈", "직원수": "120명", "현장실습명": "2024년도 겨울학기 장기 현장실습"}),
+        ];
+
+        collectOrganizations(organizations, postings);
+
+        expect([...organizations.values()]).toEqual([{
+            id: postings[0].organizationId,
+            name: "㈜로보티즈",
+            normalizedName: "로보티즈",
+            employeeCount: 120,
+            postingCounts: {"2024-겨울학기": 2},
+        }]);
+    });
+
+    test("should keep counts of other programs and never roll back to an older crawl", () => {
+        const stored: Organization = {
+            id: "org-0000000000000000",
+            name: "로보티즈",
+            normalizedName: "로보티즈",
+            employeeCount: 120,
+            postingCounts: {"2024-여름학기": 1, "2024-겨울학기": 2},
+            firstSeenAt: "2024-06-01T00:00:00.000Z",
+            lastSeenAt: "2024-11-04T00:00:00.000Z",
+        };
+        const crawled: Organization = {...stored, employeeCount: 90, postingCounts: {"2024-겨울학기": 3, "2024-2학기": 1}};
+        delete crawled.firstSeenAt;
+        delete crawled.lastSeenAt;
+
+        expect(mergeOrganization(stored, crawled, "2024-11-18T00:00:00.000Z")).toMatchObject({
+            employeeCount: 90,
+            postingCounts: {"2024-여름학기": 1, "2024-겨울학기": 3, "2024-2학기": 1},
+            firstSeenAt: "2024-06-01T00:00:00.000Z",
+            lastSeenAt: "2024-11-18T00:00:00.000Z",
+        });
+        expect(mergeOrganization(stored, crawled, "2024-09-01T00:00:00.000Z")).toMatchObject({
+            employeeCount: 120,
+            postingCounts: {"2024-여름학기": 1, "2024-겨울학기": 2, "2024-2학기": 1},
+            lastSeenAt: "2024-11-04T00:00:00.000Z",
+        });
+    });
+});
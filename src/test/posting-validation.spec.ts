@@ -0,0 +1,54 @@
+import * as path from "node:path";
+import {partitionValidPostings, transformData} from "../lambda";
+import {RECRUIT_POSTING_SCHEMA_VERSION, validateRecruitPosting} from "../posting/posting";
+import {readJsonFile} from "./utils";
+
+describe("validateRecruitPosting Function", () => {
+    const crawledData = readJsonFile(path.join(__dirname, "/data/local-raw-data.json"));
+    const transformedData = crawledData.map((data: any) => transformData(data));
+
+    test("should accept every posting in the sample crawl", () => {
+        transformedData.forEach((item) => {
+            const errors = validateRecruitPosting(item);
+            if (errors.length > 0) {
+                console.error(`Invalid posting ${item.id}:`, errors);
+            }
+            expect(errors).toEqual([]);
+        });
+    });
+
+    test("should stamp the schema version", () => {
+        expect(transformedData[0].schemaVersion).toBe(RECRUIT_POSTING_SCHEMA_VERSION);
+    });
+
+    test("should report every invalid field", () => {
+        const posting = {
+            ...transformedData[0],
+            organizationName: "",
+            applicationDeadline: "2024-11-31",
+            startDate: "24.12.30",
+            organizationSupportAmount: {period: "년", amount: -1},
+            workSchedule: {...transformedData[0].workSchedule, startTime: "9시"},
+        };
+
+        const fields = validateRecruitPosting(posting).map((error) => error.field);
+
+        expect(fields).toEqual(expect.arrayContaining([
+            "organizationName",
+            "applicationDeadline",
+            "startDate",
+            "organizationSupportAmount",
+            "workSchedule",
+        ]));
+    });
+
+    test("should quarantine only the invalid postings", () => {
+        const broken = {...transformedData[1], majors: undefined};
+        const {valid, quarantined} = partitionValidPostings([transformedData[0], broken]);
+
+        expect(valid).toHaveLength(1);
+        expect(quarantined).toHaveLength(1);
+        expect(quarantined[0].id).toBe(broken.id);
+        expect(quarantined[0].errors[0]).toMatchObject({field: "majors"});
+    });
+});
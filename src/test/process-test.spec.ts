@@ -1,17 +1,11 @@
 import * as path from "node:path";
 import { transformData } from "../lambda";
-import { readJsonFile, writeJsonFile } from "./utils";
+import { readJsonFile } from "./utils";
 
 const process = async () => {
-    const localKey = "local-raw-data.json";
-
     const crawledData = readJsonFile(path.join(__dirname, "/data/local-raw-data.json"));
     const transformedData = crawledData.map((data: any) => transformData(data));
 
-    const processedKey = localKey.replace("raw-data", "processed-data");
-    const processedFilePath = path.join(__dirname, `/data/${processedKey}`);
-    writeJsonFile(processedFilePath, transformedData);
-
     transformedData.forEach((item) => {
         console.log("Simulating DynamoDB save:", item);
         console.log("Simulating Elasticsearch save:", item);
@@ -0,0 +1,137 @@
+import * as bundledSkills from "../qualification/skills.json";
+import {
+    extractSkills,
+    parseGpaRequirement,
+    parseGrades,
+    parseQualifications,
+    parseRecruitCount,
+    parseSkillDictionary,
+    splitItems
+} from "../qualification/qualification";
+import {parseSelectionInfo} from "../internship/internship";
+import {transformData} from "../lambda";
+
+describe("parseQualifications Function", () => {
+    const input = "*전공 : 기계공학과, 로봇공학과\t\t\t\t\n*인원 :  1~2명\n*학년 :  3학년 이상\n*학점/평점 : 3.0/4.5\n" +
+        "*요구 역량 : \n1. 기계, 기계설계, 로봇공학과 전공자\n2. Creo(Pro-E) 또는 3D 설계툴 활용 설계 가능자\n" +
+        "*기타사항 : \n- Github 사용 경험 (우대 사항)\n- 파이썬 가능자";
+
+    test("should parse every section into typed fields", () => {
+        expect(parseQualifications(input)).toEqual({
+            major: ["기계공학과", "로봇공학과"],
+            recruitCount: 2,
+            grade: [3, 4],
+            credit: {minGpa: 3, scale: 4.5},
+            competence: ["기계, 기계설계, 로봇공학과 전공자", "Creo(Pro-E) 또는 3D 설계툴 활용 설계 가능자"],
+            etc: ["Github 사용 경험 (우대 사항)", "파이썬 가능자"],
+            skills: ["Python", "GitHub", "Creo"],
+        });
+    });
+
+    test("should give a null credit and every grade when there is no requirement", () => {
+        const qualifications = parseQualifications("*전공 : 무관\n*인원 : 1\n*학년 : 무관\n*학점/평점 : 무관\n*요구 역량 : 성실한 자\n*기타사항 : 없음");
+
+        expect(qualifications.grade).toEqual([1, 2, 3, 4]);
+        expect(qualifications.credit).toBeNull();
+        expect(qualifications.etc).toEqual([]);
+        expect(qualifications.skills).toEqual([]);
+    });
+
+    test("should be stored on the posting", () => {
+        const posting = transformData({"id": "1", "자격사항": "*인원 : 3명\n*요구 역량 : 엑셀, PPT 활용 능력"});
+
+        expect(posting.qualifications).toEqual({recruitCount: 3, competence: ["엑셀, PPT 활용 능력"], skills: ["Excel", "PowerPoint"]});
+    });
+});
+
+describe("parseRecruitCount Function", () => {
+    test.each([
+        ["1명", 1],
+        ["30 명 (생산기술/설비기술 합계 인원)", 30],
+        ["1~2명", 2],
+        ["0명 (2명 예정)", 0],
+        ["~7명", 7],
+        ["인원제한 없음", null],
+    ])("should parse %s", (value, expected) => {
+        expect(parseRecruitCount(value)).toBe(expected);
+    });
+});
+
+describe("parseGrades Function", () => {
+    test.each([
+        ["무관", [1, 2, 3, 4]],
+        ["3,4학년", [3, 4]],
+        ["3/4학년", [3, 4]],
+        ["3~4학년(4학년 선호)", [3, 4]],
+        ["3-4학년 재학생, 졸업유예", [3, 4]],
+        ["2학년 이상", [2, 3, 4]],
+        ["4", [4]],
+        ["4학년 2학기", [4]],
+        ["4학기 이상 수료자", []],
+        ["-25.8월 이전 졸업 예정자", []],
+    ])("should parse %s", (value, expected) => {
+        expect(parseGrades(value)).toEqual(expected);
+    });
+
+    test("should agree with parseSelectionInfo", () => {
+        for (const value of ["무관", "3,4학년", "4학년"]) {
+            expect(parseGrades(value)).toEqual(parseSelectionInfo(value));
+        }
+    });
+});
+
+describe("parseGpaRequirement Function", () => {
+    test.each([
+        ["3.0 이상", {minGpa: 3, scale: 4.5}],
+        ["3.5/4.5", {minGpa: 3.5, scale: 4.5}],
+        ["학점 3.0 / 4.3 이상", {minGpa: 3, scale: 4.3}],
+        ["3.3 이상 (4.3 만점기준)", {minGpa: 3.3, scale: 4.3}],
+        ["3 이상", {minGpa: 3, scale: 4.5}],
+        ["무관", null],
+        ["제한 없음", null],
+        ["x", null],
+        ["높을수록 우대", null],
+        ["면접시 확인", null],
+    ])("should parse %s", (value, expected) => {
+        expect(parseGpaRequirement(value)).toEqual(expected);
+    });
+});
+
+describe("splitItems Function", () => {
+    test("should split bulleted items and join their continuation lines", () => {
+        expect(splitItems("ㅇ 소프트웨어 개발 경험을\n  익히고자 하는 자\nㅇ C# 개발 경험자 우대")).toEqual([
+            "소프트웨어 개발 경험을 익히고자 하는 자",
+            "C# 개발 경험자 우대",
+        ]);
+    });
+
+    test("should split text without bullets by line", () => {
+        expect(splitItems("MS Office 사용 가능자\n영어 가능자")).toEqual(["MS Office 사용 가능자", "영어 가능자"]);
+    });
+});
+
+describe("extractSkills Function", () => {
+    test.each([
+        ["프로그래밍 능력 (파이썬 또는 C++) * 파이썬 선호", ["Python", "C++"]],
+        ["자바스크립트와 자바 경험", ["Java", "JavaScript"]],
+        ["React Native 앱 개발", ["React Native"]],
+        ["AutoCAD, 솔리드웍스 가능자", ["AutoCAD", "SolidWorks"]],
+        ["키워드 분석 능력", []],
+        ["Javanese 번역", []],
+    ])("should extract the skills of %s", (text, expected) => {
+        expect(extractSkills(text)).toEqual(expected);
+    });
+});
+
+describe("parseSkillDictionary Function", () => {
+    test("should accept the bundled dictionary", () => {
+        expect(() => parseSkillDictionary(bundledSkills)).not.toThrow();
+    });
+
+    test("should reject an alias claimed by two skills", () => {
+        expect(() => parseSkillDictionary({
+            version: "1",
+            skills: [{name: "Python", aliases: ["파이썬"]}, {name: "Py", aliases: ["파이썬"]}],
+        })).toThrow(/"파이썬" is already used by Python/);
+    });
+});
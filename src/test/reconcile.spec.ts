@@ -0,0 +1,86 @@
+import {findListedPostingIds, markPostingsRemoved, saveToDynamoDB} from "../aws/dynamo";
+import {findRemovedIds, reconcileRemovedPostings} from "../posting/reconcile";
+import {createDynamoSink} from "../sink/dynamo-sink";
+
+jest.mock("../aws/dynamo", () => ({
+    fetchStoredStates: jest.fn(async () => new Map()),
+    findListedPostingIds: jest.fn(),
+    markPostingsRemoved: jest.fn(),
+    saveToDynamoDB: jest.fn(),
+}));
+
+const listed = findListedPostingIds as jest.MockedFunction<typeof findListedPostingIds>;
+const markRemoved = markPostingsRemoved as jest.MockedFunction<typeof markPostingsRemoved>;
+const save = saveToDynamoDB as jest.MockedFunction<typeof saveToDynamoDB>;
+
+beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    markRemoved.mockImplementation(async (ids) => ({removed: ids.length, skipped: 0}));
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe("findRemovedIds Function", () => {
+    test("should return the stored ids missing from the crawl", () => {
+        expect(findRemovedIds([1, 2, 3], [3, 1, 4])).toEqual([2]);
+    });
+});
+
+describe("reconcileRemovedPostings Function", () => {
+    test("should compare every program of the crawl with its stored postings", async () => {
+        listed.mockImplementation(async (year, semester) => (semester === "겨울학기" ? [1, 2, 3] : [10, 11]));
+
+        const summary = await reconcileRemovedPostings([
+            {id: 1, year: 2024, semester: "겨울학기"},
+            {id: 3, year: 2024, semester: "겨울학기"},
+            {id: 10, year: 2025, semester: "1학기"},
+        ], "2024/crawl.json", "2024-11-10T00:00:00.000Z");
+
+        expect(listed.mock.calls).toEqual([[2024, "겨울학기"], [2025, "1학기"]]);
+        expect(markRemoved.mock.calls).toEqual([
+            [[2], "Not present in crawl 2024/crawl.json", "2024-11-10T00:00:00.000Z", "2024/crawl.json"],
+            [[11], "Not present in crawl 2024/crawl.json", "2024-11-10T00:00:00.000Z", "2024/crawl.json"],
+        ]);
+        expect(summary).toEqual({removed: 2, skipped: 0});
+    });
+
+    test("should not remove postings that are in the crawl without a program", async () => {
+        listed.mockResolvedValue([1, 2]);
+
+        await reconcileRemovedPostings([{id: 1, year: 2024, semester: "겨울학기"}, {id: 2}], "crawl.json", "2024-11-10T00:00:00.000Z");
+
+        expect(markRemoved).not.toHaveBeenCalled();
+    });
+
+    test("should add up the postings skipped by the table", async () => {
+        listed.mockResolvedValue([1, 2, 3]);
+        markRemoved.mockResolvedValue({removed: 1, skipped: 1});
+
+        const summary = await reconcileRemovedPostings([{id: 1, year: 2024, semester: "겨울학기"}], "crawl.json", "2024-11-10T00:00:00.000Z");
+
+        expect(summary).toEqual({removed: 1, skipped: 1});
+    });
+});
+
+describe("createDynamoSink Function", () => {
+    test("should log the summary of the batches and the removed postings", async () => {
+        save.mockResolvedValueOnce({added: 2, updated: 1, unchanged: 3, skipped: 0})
+            .mockResolvedValueOnce({added: 1, updated: 0, unchanged: 1, skipped: 1});
+        listed.mockResolvedValue([1, 2, 99]);
+        const crawled = [1, 2].map((id) => ({id, year: 2024, semester: "겨울학기"}));
+        const sink = createDynamoSink();
+
+        await sink.init({bucket: "bucket", key: "crawl.json", crawledAt: "2024-11-10T00:00:00.000Z", crawled});
+        await sink.write([]);
+        await sink.write([]);
+        await sink.close();
+
+        expect(markRemoved).toHaveBeenCalledWith([99], expect.any(String), "2024-11-10T00:00:00.000Z", "crawl.json");
+        expect(console.log).toHaveBeenLastCalledWith(
+            "Crawl summary for Key=crawl.json: added=3, updated=1, unchanged=4, skipped=1, removed=1"
+        );
+    });
+});
@@ -0,0 +1,59 @@
+import {transformRecords} from "../lambda";
+import {RecruitPosting} from "../posting/posting";
+import {buildProcessingReport} from "../posting/report";
+
+describe("transformRecords Function", () => {
+    const valid = {id: "1", 실습기관명: "한양전자", 모집전공: "전공무관"};
+    const broken = {id: "2", 실습기관명: "한양전자", 기관지원금: 500000};
+
+    test("should isolate postings that fail to transform", () => {
+        const {postings, failures} = transformRecords([valid, broken]);
+
+        expect(postings.map((posting) => posting.id)).toEqual([1]);
+        expect(failures).toEqual([
+            expect.objectContaining({id: 2, field: "organizationSupportAmount", value: 500000}),
+        ]);
+        expect(failures[0].error).toMatch(/^Failed to transform organizationSupportAmount: /);
+    });
+
+    test("should report failures of postings without an id", () => {
+        const {failures} = transformRecords([{기관지원금: 500000}]);
+
+        expect(failures[0].id).toBeUndefined();
+    });
+});
+
+describe("buildProcessingReport Function", () => {
+    test("should count outcomes and compute timing", () => {
+        const report = buildProcessingReport({
+            bucket: "bucket",
+            key: "raw.json",
+            startedAt: new Date("2024-11-04T00:00:00.000Z"),
+            finishedAt: new Date("2024-11-04T00:00:01.500Z"),
+            total: 10,
+            quarantined: 2,
+            failures: [{id: 3, field: "workingHours", error: "Invalid time"}],
+            postings: [
+                {id: 1, unmatchedMajorTerms: ["로봇공학과"]},
+                {id: 2, unmatchedMajorTerms: ["로봇공학과", "항공우주공학과"]},
+                {id: 4},
+            ] as RecruitPosting[],
+            sinkResults: [{sink: "dynamodb", written: 7}, {sink: "s3", written: 0, failedIn: "close", error: new Error("denied")}],
+        });
+
+        expect(report).toMatchObject({
+            sourceKey: "raw.json",
+            durationMs: 1500,
+            total: 10,
+            succeeded: 7,
+            quarantined: 2,
+            failed: 1,
+            failureRatio: 0.1,
+            unmatchedMajorTerms: [
+                {term: "로봇공학과", count: 2, postingIds: [1, 2]},
+                {term: "항공우주공학과", count: 1, postingIds: [2]},
+            ],
+            sinks: [{sink: "dynamodb", written: 7}, {sink: "s3", written: 0, failedIn: "close", error: "denied"}],
+        });
+    });
+});
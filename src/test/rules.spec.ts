@@ -0,0 +1,98 @@
+import {transformData} from "../lambda";
+import {getOrganizationId} from "../organization/organization";
+import * as organizationRules from "../rules/rules";
+import {applyOrganizationRules, getOrganizationRules, OrganizationRule, parseOrganizationRules} from "../rules/rules";
+
+describe("applyOrganizationRules Function", () => {
+    const rules: OrganizationRule[] = [
+        {
+            id: "hospital-nursing",
+            when: [{field: "organizationType", equals: "병원"}, {field: "department", matches: "^간호"}],
+            actions: [
+                {type: "set", field: "programType", value: "장기"},
+                {type: "append", field: "majors", value: ["간호학과"]},
+            ],
+        },
+    ];
+
+    test("should apply the actions of matching rules and record them", () => {
+        const posting: Record<string, any> = {organizationType: "병원", department: "간호부", majors: ["간호학과", "생명공학과"]};
+        const fired = applyOrganizationRules(posting, rules);
+
+        expect(fired).toEqual(["hospital-nursing"]);
+        expect(posting).toMatchObject({
+            programType: "장기",
+            majors: ["간호학과", "생명공학과"],
+            appliedRules: ["hospital-nursing"],
+        });
+    });
+
+    test("should leave postings that do not match every condition untouched", () => {
+        const posting: Record<string, any> = {organizationType: "병원", department: "원무과"};
+        applyOrganizationRules(posting, rules);
+
+        expect(posting).toEqual({organizationType: "병원", department: "원무과"});
+    });
+});
+
+describe("parseOrganizationRules Function", () => {
+    test("should report every invalid rule", () => {
+        const parse = () => parseOrganizationRules({
+            rules: [
+                {id: "a", when: [{field: "organizationName"}], actions: [{type: "replace", field: "x", value: 1}]},
+                {id: "a", when: [], actions: []},
+            ],
+        });
+
+        expect(parse).toThrow("a: a condition needs a field and exactly one of equals, contains, matches, exists");
+        expect(parse).toThrow("a: an action needs a type (set, override, append), a field and a value");
+        expect(parse).toThrow("a: duplicate id");
+    });
+
+    test("should reject an invalid pattern when the rules are loaded", () => {
+        const parse = () => parseOrganizationRules({
+            rules: [{id: "a", when: [{field: "department", matches: "(간호"}], actions: [{type: "set", field: "type", value: "병원"}]}],
+        });
+
+        expect(parse).toThrow(/a: invalid pattern "\(간호"/);
+    });
+
+    test("should reject actions on fields derived after the rules", () => {
+        const parse = () => parseOrganizationRules({
+            rules: [{id: "a", when: [{field: "department", exists: true}], actions: [{type: "override", field: "majors", value: ["간호학과"]}]}],
+        });
+
+        expect(parse).toThrow("a: majors is derived after the rules run and cannot be changed by an action");
+    });
+});
+
+describe("bundled organization rules", () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test("should start with the Samsung Electronics rule", () => {
+        expect(getOrganizationRules()[0].id).toBe("samsung-electronics-stem-majors");
+    });
+
+    test("should override the majors announced by Samsung Electronics", () => {
+        const posting = transformData({id: "1", 실습기관명: "삼성전자 / DS부문", 모집전공: "경영학부"});
+
+        expect(posting.announcedMajors).toBe("이공계열");
+        expect(posting.majors).toEqual(transformData({id: "2", 모집전공: "이공계열"}).majors);
+        expect(posting.appliedRules).toEqual(["samsung-electronics-stem-majors"]);
+    });
+
+    test("should derive the organization id from a name overridden by a rule", () => {
+        jest.spyOn(organizationRules, "getOrganizationRules").mockReturnValue([{
+            id: "rename",
+            when: [{field: "organizationName", equals: "한양전자"}],
+            actions: [{type: "override", field: "organizationName", value: "한양전자부품"}],
+        }]);
+
+        const posting = transformData({id: "1", 실습기관명: "한양전자"});
+
+        expect(posting.organizationName).toBe("한양전자부품");
+        expect(posting.organizationId).toBe(getOrganizationId("한양전자부품"));
+    });
+});
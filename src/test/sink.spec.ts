@@ -0,0 +1,175 @@
+import {gzipSync} from "node:zlib";
+import {Readable} from "node:stream";
+import * as s3 from "../aws/s3";
+import {resetConfig} from "../config/config";
+import {deliverRawObject, handler, readRawBatches} from "../lambda";
+import {RecruitPosting} from "../posting/posting";
+import * as rules from "../rules/rules";
+import * as registry from "../sink/registry";
+import {createSinks} from "../sink/registry";
+import {createSinkFanout, Sink} from "../sink/sink";
+
+/**
+ * Creates an in-memory sink, optionally failing in one phase.
+ * @param name - Name of the sink.
+ * @param failIn - Phase in which the sink throws.
+ * @returns The sink, the batches it received and the calls that ended the run.
+ */
+function createMemorySink(name: string, failIn?: "init" | "write" | "close" | "abort") {
+    const batches: RecruitPosting[][] = [];
+    const ended: string[] = [];
+    const fail = (phase: string) => {
+        if (failIn === phase) throw new Error(`${name} ${phase} failed`);
+    };
+    const sink: Sink = {
+        name,
+        async init() {
+            fail("init");
+        },
+        async write(batch) {
+            fail("write");
+            batches.push(batch);
+        },
+        async close() {
+            fail("close");
+            ended.push("close");
+        },
+        async abort() {
+            ended.push("abort");
+            fail("abort");
+        },
+    };
+    return {sink, batches, ended};
+}
+
+describe("createSinkFanout Function", () => {
+    const run = {bucket: "bucket", key: "raw.json", crawledAt: "2024-11-04T00:00:00.000Z", crawled: []};
+    const batch = [{id: 1}, {id: 2}] as RecruitPosting[];
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test("should keep writing to healthy sinks when one fails", async () => {
+        const healthy = createMemorySink("healthy");
+        const broken = createMemorySink("broken", "write");
+        const fanout = createSinkFanout([healthy.sink, broken.sink]);
+        jest.spyOn(console, "error").mockImplementation(() => undefined);
+
+        await fanout.init(run);
+        await fanout.write(batch);
+        await fanout.write(batch);
+        const results = await fanout.close();
+
+        expect(healthy.batches).toHaveLength(2);
+        expect(results).toEqual([
+            {sink: "healthy", written: 4},
+            expect.objectContaining({sink: "broken", written: 0, failedIn: "write"}),
+        ]);
+    });
+
+    test("should skip a sink that failed to initialize", async () => {
+        const broken = createMemorySink("broken", "init");
+        const fanout = createSinkFanout([broken.sink]);
+        jest.spyOn(console, "error").mockImplementation(() => undefined);
+
+        await fanout.init(run);
+        await fanout.write(batch);
+        const [result] = await fanout.close();
+
+        expect(broken.batches).toHaveLength(0);
+        expect(result.failedIn).toBe("init");
+    });
+
+    test("should abort every sink, including failed ones", async () => {
+        const healthy = createMemorySink("healthy");
+        const broken = createMemorySink("broken", "write");
+        const failing = createMemorySink("failing", "abort");
+        const fanout = createSinkFanout([healthy.sink, broken.sink, failing.sink]);
+        jest.spyOn(console, "error").mockImplementation(() => undefined);
+
+        await fanout.init(run);
+        await fanout.write(batch);
+        await fanout.abort();
+
+        expect([healthy.ended, broken.ended, failing.ended]).toEqual([["abort"], ["abort"], ["abort"]]);
+    });
+});
+
+describe("createSinks Function", () => {
+    test("should create the configured sinks", () => {
+        expect(createSinks(["dynamodb", "organizations", "local"]).map((sink) => sink.name)).toEqual(["dynamodb", "organizations", "local"]);
+    });
+
+    test("should reject unknown sinks", () => {
+        expect(() => createSinks(["dynamodb", "kafka"])).toThrow('Unknown sink "kafka"');
+    });
+});
+
+describe("deliverRawObject Function", () => {
+    const env = process.env;
+
+    beforeEach(() => {
+        process.env = {...env, STAGE: "dev", AWS_REGION: "ap-northeast-2", SINKS: "local", BATCH_SIZE: "1"};
+        resetConfig();
+        jest.spyOn(console, "error").mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        process.env = env;
+        resetConfig();
+    });
+
+    test("should abort the sinks and write no report when the gzip input is truncated", async () => {
+        const compressed = gzipSync(JSON.stringify([{id: "1", 실습기관명: "한양전자"}, {id: "2", 실습기관명: "한양화학"}]));
+        jest.spyOn(s3, "getS3ObjectStream").mockImplementation(async () => ({
+            body: Readable.from([compressed.subarray(0, compressed.length - 12)]),
+        }));
+        const saveToS3 = jest.spyOn(s3, "saveToS3").mockResolvedValue(undefined);
+        const memory = createMemorySink("memory");
+        jest.spyOn(registry, "createSinks").mockReturnValue([memory.sink]);
+
+        const delivery = deliverRawObject("bucket", "crawl.json.gz", readRawBatches("bucket", "crawl.json.gz"), ["memory"], "2024-11-04T00:00:00.000Z");
+
+        await expect(delivery).rejects.toThrow();
+        expect(memory.ended).toEqual(["abort"]);
+        expect(saveToS3).not.toHaveBeenCalled();
+    });
+
+    test("should write the quarantine and the report as .json whatever the format of the crawl", async () => {
+        const saveToS3 = jest.spyOn(s3, "saveToS3").mockResolvedValue(undefined);
+        jest.spyOn(console, "log").mockImplementation(() => undefined);
+        jest.spyOn(console, "warn").mockImplementation(() => undefined);
+        jest.spyOn(registry, "createSinks").mockReturnValue([createMemorySink("memory").sink]);
+        const posting = {id: 1} as RecruitPosting;
+
+        await deliverRawObject("bucket", "2024/crawl.ndjson.gz", [{
+            total: 1,
+            postings: [posting],
+            failures: [],
+            valid: [],
+            quarantined: [{id: 1, errors: [{field: "majors", message: "must be an array"}], posting}],
+        }], ["memory"], "2024-11-04T00:00:00.000Z");
+
+        expect(saveToS3.mock.calls.map(([, key]) => key)).toEqual(["quarantine/2024/crawl.json", "reports/2024/crawl.json"]);
+    });
+
+    test("should date the crawl by the time of the S3 event, not the time it is handled", async () => {
+        jest.spyOn(rules, "initOrganizationRules").mockResolvedValue(undefined);
+        jest.spyOn(s3, "getS3ObjectStream").mockImplementation(async () => ({
+            body: Readable.from([JSON.stringify([{id: "1", 실습기관명: "한양전자"}])]),
+        }));
+        jest.spyOn(s3, "saveToS3").mockResolvedValue(undefined);
+        jest.spyOn(console, "log").mockImplementation(() => undefined);
+        const memory = createMemorySink("memory");
+        const init = jest.spyOn(memory.sink, "init");
+        jest.spyOn(registry, "createSinks").mockReturnValue([memory.sink]);
+
+        const event = {Records: [{eventTime: "2024-11-04T00:00:00.000Z", s3: {bucket: {name: "bucket"}, object: {key: "crawl.json"}}}]};
+        await handler(event as any, {} as any, () => undefined);
+
+        expect(init).toHaveBeenCalledWith(expect.objectContaining({crawledAt: "2024-11-04T00:00:00.000Z"}));
+        expect(memory.ended).toEqual(["close"]);
+    });
+});
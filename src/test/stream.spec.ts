@@ -0,0 +1,101 @@
+import {Readable} from "stream";
+import {gzipSync} from "node:zlib";
+import {inBatches, isGzipped, readAhead, readJsonRecords} from "../util/stream";
+
+/**
+ * Creates a readable stream that emits the given chunks one by one.
+ * @param chunks - The chunks to emit.
+ * @returns The readable stream.
+ */
+function streamOf(...chunks: (string | Buffer)[]): Readable {
+    return Readable.from(chunks.map((chunk) => Buffer.from(chunk)));
+}
+
+async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+    const collected: T[] = [];
+    for await (const item of items) {
+        collected.push(item);
+    }
+    return collected;
+}
+
+describe("readJsonRecords Function", () => {
+    test("should read the objects of a JSON array split across chunks", async () => {
+        const text = '[{"id": 1, "name": "a]b\\"c"}, {"id": 2, "nested": {"list": [1, {"x": "}"}]}}]';
+        const chunks = text.match(/.{1,7}/gs);
+
+        await expect(collect(readJsonRecords(streamOf(...chunks)))).resolves.toEqual([
+            {id: 1, name: "a]b\"c"},
+            {id: 2, nested: {list: [1, {x: "}"}]}},
+        ]);
+    });
+
+    test("should read newline-delimited JSON", async () => {
+        const records = collect(readJsonRecords(streamOf('\n{"id": 1}\n{"id"', ': 2}\n\n{"id": 3}')));
+
+        await expect(records).resolves.toEqual([{id: 1}, {id: 2}, {id: 3}]);
+    });
+
+    test("should gunzip compressed input", async () => {
+        const compressed = gzipSync(JSON.stringify([{id: 1}, {id: 2}]));
+
+        await expect(collect(readJsonRecords(streamOf(compressed), {gzip: true}))).resolves.toEqual([{id: 1}, {id: 2}]);
+    });
+
+    test("should read an empty array or an empty stream as no records", async () => {
+        await expect(collect(readJsonRecords(streamOf("[ ]")))).resolves.toEqual([]);
+        await expect(collect(readJsonRecords(streamOf("  \n")))).resolves.toEqual([]);
+    });
+
+    test("should reject malformed input", async () => {
+        await expect(collect(readJsonRecords(streamOf('[{"id": 1}, 2]')))).rejects.toThrow("Expected an object in the JSON array");
+        await expect(collect(readJsonRecords(streamOf('[{"id": 1}')))).rejects.toThrow("Unexpected end of the JSON array");
+        await expect(collect(readJsonRecords(streamOf('{"id": 1}\n{"id": }')))).rejects.toThrow("Invalid JSON record at line 2");
+    });
+});
+
+describe("isGzipped Function", () => {
+    test("should detect gzip by extension or content encoding", () => {
+        expect(isGzipped("2024/crawl.json.gz")).toBe(true);
+        expect(isGzipped("2024/crawl.json", "gzip")).toBe(true);
+        expect(isGzipped("2024/crawl.ndjson")).toBe(false);
+    });
+});
+
+describe("inBatches Function", () => {
+    test("should group items into batches of at most the given size", async () => {
+        await expect(collect(inBatches(Readable.from([1, 2, 3, 4, 5]), 2))).resolves.toEqual([[1, 2], [3, 4], [5]]);
+    });
+});
+
+describe("readAhead Function", () => {
+    test("should read no more than the given number of items ahead of the reader", async () => {
+        let read = 0;
+        const source = (async function* () {
+            for (let i = 1; i <= 5; i++) {
+                read = i;
+                yield i;
+            }
+        })();
+
+        const items = readAhead(source, 2);
+        await new Promise((resolve) => setImmediate(resolve));
+        expect(read).toBe(2);
+
+        expect(await items.next()).toEqual({value: 1, done: false});
+        await new Promise((resolve) => setImmediate(resolve));
+        expect(read).toBe(3);
+        await expect(collect(items)).resolves.toEqual([2, 3, 4, 5]);
+    });
+
+    test("should throw the error of the source when the reader reaches it", async () => {
+        const source = (async function* () {
+            yield 1;
+            throw new Error("truncated");
+        })();
+
+        const items = readAhead(source, 3);
+        expect(await items.next()).toEqual({value: 1, done: false});
+        await expect(items.next()).rejects.toThrow("truncated");
+    });
+});
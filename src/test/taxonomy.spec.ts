@@ -0,0 +1,54 @@
+import {transformData} from "../lambda";
+import {matchMajors} from "../major/major";
+import {MAJOR_TAXONOMY_VERSION, parseMajorTaxonomy} from "../major/taxonomy";
+
+const campus = (id: string, departments: any[]) => ({
+    id,
+    name: id,
+    colleges: [{name: "공과대학", departments}],
+    categories: [{name: "공학계열", colleges: ["공과대학"]}],
+    groups: [],
+});
+
+describe("parseMajorTaxonomy Function", () => {
+    test("should accept several campuses with the same department names", () => {
+        const taxonomy = parseMajorTaxonomy({
+            version: "test",
+            defaultCampus: "seoul",
+            campuses: [campus("seoul", [{name: "기계공학부"}]), campus("erica", [{name: "기계공학부"}])],
+        });
+
+        expect(taxonomy.campuses.map((item) => item.id)).toEqual(["seoul", "erica"]);
+    });
+
+    test("should report every problem of the taxonomy", () => {
+        const parse = () => parseMajorTaxonomy({
+            version: "test",
+            defaultCampus: "ansan",
+            campuses: [{
+                ...campus("seoul", [{name: "기계공학부", aliases: ["기계공학과"]}, {name: "기계공학과"}]),
+                categories: [{name: "이공계열", colleges: ["자연과학대학"]}],
+            }],
+        });
+
+        expect(parse).toThrow('defaultCampus "ansan" is not a campus id');
+        expect(parse).toThrow('campus seoul: "기계공학과" of 기계공학과 is already used by 기계공학부');
+        expect(parse).toThrow("campus seoul: category 이공계열 references unknown college 자연과학대학");
+    });
+});
+
+describe("major taxonomy", () => {
+    test("should match departments by their aliases", () => {
+        const {matches} = matchMajors(["전기생체공학"]);
+
+        expect(matches).toEqual([{major: "전기ㆍ생체공학부", method: "alias", term: "전기생체공학", confidence: 0.95}]);
+    });
+
+    test("should not match departments of inactive colleges by name", () => {
+        expect(matchMajors(["의예과"]).majors).toEqual([]);
+    });
+
+    test("should record the taxonomy version on transformed postings", () => {
+        expect(transformData({id: "1", 모집전공: "간호학과"}).taxonomyVersion).toBe(MAJOR_TAXONOMY_VERSION);
+    });
+});
@@ -0,0 +1,67 @@
+import {transformData} from "../lambda";
+import {createTransformPipeline, FieldTransformer, resolveTransformerOrder} from "../transform/transform";
+import {FIELD_TRANSFORMERS, POST_PROCESSORS} from "../transform/transformers";
+
+const transformer = (field: string, dependsOn?: string[]): FieldTransformer => ({field, dependsOn, transform: () => undefined});
+
+describe("resolveTransformerOrder Function", () => {
+    test("should run dependencies first and keep the declaration order otherwise", () => {
+        const ordered = resolveTransformerOrder([
+            transformer("interviewInfo", ["internshipName"]),
+            transformer("id"),
+            transformer("internshipName"),
+        ]);
+
+        expect(ordered.map((item) => item.field)).toEqual(["internshipName", "interviewInfo", "id"]);
+    });
+
+    test("should reject circular and undeclared dependencies", () => {
+        expect(() => resolveTransformerOrder([transformer("a", ["b"]), transformer("b", ["a"])]))
+            .toThrow("Circular transformer dependency: a -> b -> a");
+        expect(() => resolveTransformerOrder([transformer("a", ["missing"])]))
+            .toThrow('Transformer "a" depends on undeclared field "missing"');
+    });
+});
+
+describe("createTransformPipeline Function", () => {
+    test("should trim mapped fields without a transformer", () => {
+        const posting: Record<string, any> = {};
+        createTransformPipeline([], [])({부서: "  인사팀 ", 번호: "3"}, posting);
+
+        expect(posting).toEqual({department: "인사팀"});
+    });
+});
+
+describe("field transformers", () => {
+    const byField = (field: string) => FIELD_TRANSFORMERS.find((item) => item.field === field);
+
+    test("should transform a single field on its own", () => {
+        const posting: Record<string, any> = {};
+        byField("organizationName").transform("한양전자 / 인사팀", posting);
+
+        expect(posting).toEqual({organizationName: "한양전자", organizationId: expect.stringMatching(/^org-/), department: "인사팀"});
+    });
+
+    test("should fill majors from the qualifications when none were announced", () => {
+        const posting: Record<string, any> = {majors: [], qualifications: {major: ["간호학과"]}};
+        POST_PROCESSORS.find((item) => item.name === "majorsFromQualifications").apply(posting, {});
+
+        expect(posting.majors).toEqual(["간호학과"]);
+    });
+});
+
+describe("transformData Function", () => {
+    test("should not depend on the key order of the crawled data", () => {
+        const raw = {
+            id: "10",
+            모집전공: "경영학부",
+            실습기관명: "삼성전자 / DS부문",
+            현장실습명: "2024년도 겨울학기 단기 현장실습",
+            면접정보: "면접일 : 12/20\n내용 : 대면 면접",
+        };
+        const reversed = Object.fromEntries(Object.entries(raw).reverse());
+
+        expect(transformData(reversed)).toEqual(transformData(raw));
+        expect(transformData(raw).announcedMajors).toBe("이공계열");
+    });
+});
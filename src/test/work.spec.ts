@@ -0,0 +1,99 @@
+import {transformData} from "../lambda";
+import {computeWeeklyHours, handleWorkingDays, handleWorkingHours, parseWeekdays, WorkSchedule} from "../work/work";
+
+/**
+ * Parses working hours and days the way the transform pipeline does.
+ * @param hours - The raw "근무시간" value.
+ * @param days - The raw "근무요일" value.
+ * @returns The parsed schedule with its weekly hours.
+ */
+function parseSchedule(hours?: string, days?: string): WorkSchedule {
+    const posting: Record<string, any> = {};
+    if (hours !== undefined) handleWorkingHours(hours, posting);
+    if (days !== undefined) handleWorkingDays(days, posting);
+    const schedule: WorkSchedule = posting["workSchedule"];
+    const weeklyHours = computeWeeklyHours(schedule);
+    return weeklyHours === undefined ? schedule : {...schedule, weeklyHours};
+}
+
+describe("parseWeekdays Function", () => {
+    test.each([
+        ["월 화 수 목 금", ["MON", "TUE", "WED", "THU", "FRI"]],
+        ["월~금", ["MON", "TUE", "WED", "THU", "FRI"]],
+        ["월요일-수요일, 금요일", ["MON", "TUE", "WED", "FRI"]],
+        ["금∼월", ["MON", "FRI", "SAT", "SUN"]],
+        ["평일", ["MON", "TUE", "WED", "THU", "FRI"]],
+        ["매일", ["MON", "TUE", "WED", "THU", "FRI", "SAT", "SUN"]],
+        ["근무일 협의", []],
+    ])("should parse %s", (input, expected) => {
+        expect(parseWeekdays(input)).toEqual(expected);
+    });
+});
+
+describe("handleWorkingHours Function", () => {
+    test("should compute the weekly hours of a regular schedule", () => {
+        expect(parseSchedule("09시 00분 ~ 18시 00분", "월 화 수 목 금")).toEqual({
+            raw: {hours: "09시 00분 ~ 18시 00분", days: "월 화 수 목 금"},
+            days: ["MON", "TUE", "WED", "THU", "FRI"],
+            daysPerWeek: 5,
+            startTime: "09:00",
+            endTime: "18:00",
+            breakMinutes: 60,
+            flexible: false,
+            weeklyHours: 40,
+        });
+    });
+
+    test("should read 12-hour forms and a stated break", () => {
+        expect(parseSchedule("오후 1시 ~ 10시 (휴게 30분)", "주 3일")).toMatchObject({
+            startTime: "13:00",
+            endTime: "22:00",
+            breakMinutes: 30,
+            daysPerWeek: 3,
+            weeklyHours: 25.5,
+        });
+        expect(parseSchedule("오전 9시 ~ 오후 6시, 점심시간 12:00~13:30", "월~금")).toMatchObject({
+            startTime: "09:00",
+            endTime: "18:00",
+            breakMinutes: 90,
+            weeklyHours: 37.5,
+        });
+        expect(parseSchedule("오전 9시~6시", "월~금")).toMatchObject({
+            startTime: "09:00",
+            endTime: "18:00",
+            breakMinutes: 60,
+            weeklyHours: 40,
+        });
+        expect(parseSchedule("오전 9시~11시", "월~금")).toMatchObject({startTime: "09:00", endTime: "11:00", weeklyHours: 10});
+        expect(parseSchedule("오후 10시 ~ 6시", "월~금")).toMatchObject({startTime: "22:00", endTime: "06:00", overnight: true});
+    });
+
+    test("should handle overnight shifts", () => {
+        expect(parseSchedule("22:00 ~ 07:00 (휴게 1시간)", "월, 수, 금")).toMatchObject({
+            overnight: true,
+            breakMinutes: 60,
+            weeklyHours: 24,
+        });
+    });
+
+    test("should flag flexible and negotiable schedules without failing", () => {
+        expect(parseSchedule("유연근무제 (코어타임 10:00~16:00)", "월~금")).toMatchObject({flexible: true, startTime: "10:00", endTime: "16:00"});
+        expect(parseSchedule("시차출퇴근제 운영", "협의")).toEqual({
+            raw: {hours: "시차출퇴근제 운영", days: "협의"},
+            days: [],
+            flexible: true,
+            negotiable: true,
+        });
+    });
+
+    test("should keep unparsable text as a flagged raw value", () => {
+        const posting = transformData({"id": "1", "근무시간": "기관 내규에 따름", "근무요일": "??"});
+
+        expect(posting.workSchedule).toEqual({
+            raw: {hours: "기관 내규에 따름", days: "??"},
+            days: [],
+            flexible: false,
+            unparsed: ["hours", "days"],
+        });
+    });
+});
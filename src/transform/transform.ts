@@ -0,0 +1,140 @@
+import {EXCLUDE_KEYS, INVALID_VALUES, KEY_MAPPING} from "../constants";
+import {TransformError} from "../posting/report";
+import {cleanGenericValue} from "../util/util";
+
+/**
+ * Transforms a single mapped field of a raw posting.
+ *
+ * `transform` receives the raw value and the posting built so far, and writes its result into the posting.
+ * Most transformers set the field itself, but a transformer may set several fields (e.g., `internshipName`
+ * sets `year`, `semester` and `programType`). Fields listed in `dependsOn` are guaranteed to be transformed
+ * first, whatever the key order of the crawled data.
+ */
+export interface FieldTransformer {
+    field: string;
+    dependsOn?: string[];
+
+    transform(value: any, posting: Record<string, any>): void;
+}
+
+/**
+ * What the transform of a posting knows about the crawl it came from.
+ *
+ * `crawledAt` is the ISO timestamp of the crawl; it is unknown when a file is transformed locally.
+ */
+export interface TransformContext {
+    crawledAt?: string;
+}
+
+/**
+ * A cross-field rule applied to the posting after every field has been transformed.
+ */
+export interface PostProcessor {
+    name: string;
+
+    apply(posting: Record<string, any>, context: TransformContext): void;
+}
+
+/**
+ * Maps the keys of a raw posting to their output names and drops excluded keys and invalid values.
+ *
+ * @param {Record<string, any>} data - The raw posting as crawled.
+ * @returns {Map<string, any>} - The raw values by output field name, in the order of the crawled data.
+ */
+export function mapRawFields(data: Record<string, any>): Map<string, any> {
+    const fields = new Map<string, any>();
+
+    for (const [key, value] of Object.entries(data)) {
+        const field = KEY_MAPPING[key] || key;
+        if (EXCLUDE_KEYS.includes(field) || INVALID_VALUES.includes(value)) {
+            continue;
+        }
+        fields.set(field, value);
+    }
+    return fields;
+}
+
+/**
+ * Orders transformers so that every transformer runs after the ones it depends on.
+ *
+ * Transformers without dependencies between them keep their declaration order.
+ *
+ * @param {FieldTransformer[]} transformers - The declared transformers.
+ * @returns {FieldTransformer[]} - The transformers in a valid execution order.
+ * @throws {Error} - Throws if a dependency is not declared or the dependencies form a cycle.
+ */
+export function resolveTransformerOrder(transformers: FieldTransformer[]): FieldTransformer[] {
+    const byField = new Map(transformers.map((transformer) => [transformer.field, transformer]));
+    const ordered: FieldTransformer[] = [];
+    const state = new Map<string, "visiting" | "done">();
+
+    function visit(transformer: FieldTransformer, path: string[]) {
+        if (state.get(transformer.field) === "done") return;
+        if (state.get(transformer.field) === "visiting") {
+            throw new Error(`Circular transformer dependency: ${[...path, transformer.field].join(" -> ")}`);
+        }
+
+        state.set(transformer.field, "visiting");
+        for (const dependency of transformer.dependsOn ?? []) {
+            const required = byField.get(dependency);
+            if (!required) {
+                throw new Error(`Transformer "${transformer.field}" depends on undeclared field "${dependency}"`);
+            }
+            visit(required, [...path, transformer.field]);
+        }
+        state.set(transformer.field, "done");
+        ordered.push(transformer);
+    }
+
+    transformers.forEach((transformer) => visit(transformer, []));
+    return ordered;
+}
+
+/**
+ * Builds a function that runs the field transformers and post-processors over a raw posting.
+ *
+ * The transformer order is resolved once. Mapped fields without a declared transformer are trimmed with
+ * `cleanGenericValue`, so a new `KEY_MAPPING` entry works without further changes. A transformer that
+ * throws is reported as a {@link TransformError} naming the field and its raw value.
+ *
+ * @param {FieldTransformer[]} transformers - The per-field transformers.
+ * @param {PostProcessor[]} postProcessors - The cross-field rules, applied in order after all fields.
+ * @returns {(data: Record<string, any>, posting: Record<string, any>, context?: TransformContext) => void}
+ *          - Writes the transformed fields of `data` into `posting`.
+ */
+export function createTransformPipeline(transformers: FieldTransformer[], postProcessors: PostProcessor[]) {
+    const ordered = resolveTransformerOrder(transformers);
+    const declared = new Set(ordered.map((transformer) => transformer.field));
+
+    return (data: Record<string, any>, posting: Record<string, any>, context: TransformContext = {}): void => {
+        const fields = mapRawFields(data);
+
+        for (const transformer of ordered) {
+            if (fields.has(transformer.field)) {
+                runField(transformer.field, fields.get(transformer.field), () => {
+                    transformer.transform(fields.get(transformer.field), posting);
+                });
+            }
+        }
+
+        for (const [field, value] of fields) {
+            if (!declared.has(field)) {
+                runField(field, value, () => {
+                    posting[field] = cleanGenericValue(value);
+                });
+            }
+        }
+
+        for (const processor of postProcessors) {
+            runField(processor.name, undefined, () => processor.apply(posting, context));
+        }
+    };
+}
+
+function runField(field: string, value: any, run: () => void) {
+    try {
+        run();
+    } catch (error) {
+        throw new TransformError(field, value, error);
+    }
+}
@@ -0,0 +1,260 @@
+import {MajorResolution, matchMajors, resolveMajors} from "../major/major";
+import {normalizeDeadlineTime, toSeoulTimestamp} from "../util/date";
+import {computeWeeklyHours, handleWorkingDays, handleWorkingHours} from "../work/work";
+import {
+    cleanCurrency,
+    deriveStatus,
+    handleInternshipName,
+    handleInternshipPeriod,
+    parseSelectionInfo,
+    parseStatus
+} from "../internship/internship";
+import {parseInternshipDetails} from "../internship/details";
+import {handleInterviewInfo} from "../internship/interview";
+import {normalizeLocation} from "../location/location";
+import {parseQualifications, parseRecruitCount} from "../qualification/qualification";
+import {
+    getOrganizationId,
+    handleOrganizationName,
+    parseEmployeeCount,
+    parseHomepage,
+    parseListing,
+    parseOrganizationSize,
+    parseOrganizationType
+} from "../organization/organization";
+import {computeCompetitionRate, parseApplicantCount} from "../posting/applicants";
+import {addWarning} from "../posting/posting";
+import {applyOrganizationRules, getOrganizationRules} from "../rules/rules";
+import {FieldTransformer, PostProcessor} from "./transform";
+
+/**
+ * The per-field transformers of a raw posting, keyed by the output field name of `KEY_MAPPING`.
+ *
+ * Fields not listed here are only trimmed.
+ */
+export const FIELD_TRANSFORMERS: FieldTransformer[] = [
+    {
+        field: "id",
+        transform: (value, posting) => (posting["id"] = parseInt(value)),
+    },
+    {
+        field: "organizationName",
+        dependsOn: ["department"],
+        transform: (value, posting) => handleOrganizationName(posting, value, posting["department"] !== undefined),
+    },
+    {
+        field: "department",
+        transform: (value, posting) => (posting["department"] = value.trim()),
+    },
+    {
+        field: "organizationType",
+        transform: (value, posting) => setKnownValue(posting, "organizationType", value, parseOrganizationType(value)),
+    },
+    {
+        field: "organizationSize",
+        transform: (value, posting) => setKnownValue(posting, "organizationSize", value, parseOrganizationSize(value)),
+    },
+    {
+        field: "isListed",
+        transform: (value, posting) => {
+            const listing = parseListing(value);
+            setKnownValue(posting, "isListed", value, listing?.isListed);
+            if (listing?.market) posting["market"] = listing.market;
+        },
+    },
+    {
+        field: "employeeCount",
+        transform: (value, posting) => {
+            const employeeCount = parseEmployeeCount(value);
+            if (employeeCount !== undefined) posting["employeeCount"] = employeeCount;
+        },
+    },
+    {
+        field: "homepage",
+        transform: (value, posting) => {
+            const homepage = parseHomepage(value);
+            if (homepage) posting["homepage"] = homepage;
+        },
+    },
+    {
+        field: "status",
+        transform: (value, posting) => (posting["status"] = parseStatus(value)),
+    },
+    {
+        field: "deadlineTime",
+        transform: (value, posting) => (posting["deadlineTime"] = normalizeDeadlineTime(value)),
+    },
+    {
+        field: "internshipName",
+        transform: (value, posting) => handleInternshipName(posting, value),
+    },
+    {
+        field: "internshipPeriod",
+        dependsOn: ["internshipName"],
+        transform: (value, posting) => handleInternshipPeriod(posting, value),
+    },
+    {
+        field: "location",
+        transform: (value, posting) => {
+            posting["location"] = normalizeLocation(value);
+            if (!posting["location"].sido) {
+                addWarning(posting, {field: "location", message: "is not a known Korean region", value});
+            }
+        },
+    },
+    {
+        field: "internshipDetails",
+        transform: (value, posting) => (posting["internshipDetails"] = parseInternshipDetails(value)),
+    },
+    {
+        field: "interviewInfo",
+        dependsOn: ["internshipName"],
+        transform: (value, posting) => handleInterviewInfo(posting, value),
+    },
+    {
+        field: "organizationSupportAmount",
+        transform: (value, posting) => (posting["organizationSupportAmount"] = cleanCurrency(value)),
+    },
+    {
+        field: "majors",
+        transform: (value, posting) => (posting["announcedMajors"] = value),
+    },
+    {
+        field: "qualifications",
+        transform: (value, posting) => (posting["qualifications"] = parseQualifications(value)),
+    },
+    {
+        field: "recruitCount",
+        transform: (value, posting) => setCount(posting, "recruitCount", value, parseRecruitCount(value) ?? undefined),
+    },
+    {
+        field: "applicantCount",
+        transform: (value, posting) => setCount(posting, "applicantCount", value, parseApplicantCount(value)),
+    },
+    {
+        field: "workingHours",
+        transform: (value, posting) => handleWorkingHours(value, posting),
+    },
+    {
+        field: "workingDays",
+        transform: (value, posting) => handleWorkingDays(value, posting),
+    },
+    {
+        field: "selectionInfo",
+        transform: (value, posting) => (posting["selectionInfo"] = parseSelectionInfo(value)),
+    },
+];
+
+/**
+ * Cross-field rules, applied in order once every field has been transformed.
+ */
+export const POST_PROCESSORS: PostProcessor[] = [
+    {
+        // Rules may not act on the fields derived by the processors below; parseOrganizationRules rejects them.
+        name: "organizationRules",
+        apply: (posting) => applyOrganizationRules(posting, getOrganizationRules()),
+    },
+    {
+        // Rules may override the organization name; the id follows it so the organization is merged under its new name.
+        name: "organizationId",
+        apply: (posting) => {
+            if (posting["organizationName"]) {
+                posting["organizationId"] = getOrganizationId(posting["organizationName"]);
+            }
+        },
+    },
+    {
+        // Runs after the organization rules, which may override the announced majors.
+        name: "majors",
+        apply: (posting) => {
+            if (posting["announcedMajors"] !== undefined) {
+                setMajors(posting, resolveMajors(posting["announcedMajors"]));
+            }
+        },
+    },
+    {
+        // Needs both the working hours and the working days, which are separate raw fields.
+        name: "weeklyHours",
+        apply: (posting) => {
+            const weeklyHours = posting["workSchedule"] && computeWeeklyHours(posting["workSchedule"]);
+            if (weeklyHours !== undefined) {
+                posting["workSchedule"].weeklyHours = weeklyHours;
+            }
+        },
+    },
+    {
+        name: "majorsFromQualifications",
+        apply: (posting) => {
+            const qualificationMajors = posting["qualifications"]?.major;
+            if ((posting["majors"] ?? []).length === 0 && Array.isArray(qualificationMajors)) {
+                setMajors(posting, matchMajors(qualificationMajors));
+            }
+        },
+    },
+    {
+        // Needs both the deadline day and the deadline time, which are separate raw fields.
+        name: "applicationDeadlineAt",
+        apply: (posting) => {
+            const deadlineAt = toSeoulTimestamp(posting["applicationDeadline"], posting["deadlineTime"]);
+            if (deadlineAt) {
+                posting["applicationDeadlineAt"] = deadlineAt;
+            }
+        },
+    },
+    {
+        // Only known for a crawl; a posting transformed without one keeps the crawled status.
+        name: "status",
+        apply: (posting, {crawledAt}) => {
+            if (!crawledAt || typeof posting["status"] !== "boolean" || !posting["applicationDeadlineAt"]) {
+                return;
+            }
+            const {status, conflict} = deriveStatus(posting["status"], posting["applicationDeadlineAt"], crawledAt);
+            posting["status"] = status;
+            if (conflict) {
+                posting["statusConflict"] = conflict;
+            }
+        },
+    },
+    {
+        // Needs both the applicant and the recruit count, which are separate raw fields.
+        name: "competitionRate",
+        apply: (posting) => {
+            const competitionRate = computeCompetitionRate(posting["applicantCount"], posting["recruitCount"]);
+            if (competitionRate !== undefined) {
+                posting["competitionRate"] = competitionRate;
+            }
+        },
+    },
+];
+
+function setMajors(posting: Record<string, any>, {majors, matches, unmatched}: MajorResolution) {
+    posting["majors"] = majors;
+    posting["majorMatches"] = matches;
+    if (unmatched.length > 0) {
+        posting["unmatchedMajorTerms"] = unmatched;
+    } else {
+        delete posting["unmatchedMajorTerms"];
+    }
+}
+
+/**
+ * Sets a field parsed into a closed set of values, or records a warning with the raw value if parsing failed.
+ */
+function setKnownValue(posting: Record<string, any>, field: string, raw: string, parsed: any) {
+    if (parsed === undefined) {
+        addWarning(posting, {field, message: "is not a known value", value: raw});
+    } else {
+        posting[field] = parsed;
+    }
+}
+
+/**
+ * Sets a field parsed into a count, or records a warning with the raw value if parsing failed.
+ */
+function setCount(posting: Record<string, any>, field: string, raw: string, parsed: number | undefined) {
+    if (parsed === undefined) {
+        addWarning(posting, {field, message: "is not a count", value: raw});
+    } else {
+        posting[field] = parsed;
+    }
+}
@@ -1,116 +1,230 @@
 /**
  * Normalizes a deadline time string into a standardized format (HH:mm).
  *
- * The function supports various time formats such as "12시까지", "12시 30분까지", or "12:30까지".
- * If the input does not match any of the supported patterns or is empty, it returns "24:00".
+ * The function supports various time formats such as "12시까지", "12시 30분까지", "12:30까지" and
+ * "오후 6시까지". Midnight ("자정", "밤 12시") is the end of the deadline day, "24:00", as is an input that
+ * does not match any of the supported patterns or is empty. "오전 12시" is the start of the day, "00:00".
  *
  * @param {string} time - The input time string to be normalized.
  * @returns {string} - The normalized time in HH:mm format.
  */
 export function normalizeDeadlineTime(time: string): string {
-    if (!time) return "24:00";
-
-    const patterns = [
-        { regex: /(\d{1,2})시까지/, format: (h: string) => `${String(h).padStart(2, "0")}:00` },
-        {
-            regex: /(\d{1,2})시\s*(\d{1,2})분까지/,
-            format: (h: string, m: string) => `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`,
-        },
-        {
-            regex: /(\d{1,2}):(\d{1,2})까지/,
-            format: (h: string, m: string) => `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`,
-        },
-    ];
-
-    for (const { regex, format } of patterns) {
-        const match = time.match(regex);
-        if (match) {
-            // @ts-ignore
-            return format(...match.slice(1));
-        }
+    if (!time || /자정|밤\s*12\s*시/.test(time)) return "24:00";
+    if (/정오/.test(time)) return "12:00";
+
+    const normalized = parseKoreanTime(time);
+    return normalized === null || normalized > "24:00" ? "24:00" : normalized;
+}
+
+/**
+ * Combines a date and a deadline time into an ISO timestamp in Asia/Seoul.
+ *
+ * Korea has no daylight saving time, so the offset is always +09:00. "24:00" is the end of the day,
+ * the last second before midnight, so the timestamp keeps the date it was announced for.
+ *
+ * @param {string} date - The deadline day in YYYY-MM-DD format.
+ * @param {string} time - The deadline time in HH:mm format, as returned by `normalizeDeadlineTime`.
+ * @returns {string | null} - The timestamp (e.g., "2024-11-04T23:59:59+09:00"), or null if the date is invalid.
+ */
+export function toSeoulTimestamp(date: string, time: string = "24:00"): string | null {
+    if (!isIsoDate(date)) return null;
+    return time === "24:00" ? `${date}T23:59:59+09:00` : `${date}T${time}:00+09:00`;
+}
+
+export interface DateContext {
+    year?: number;
+    semester?: string;
+}
+
+export interface DateRange {
+    start: string | null;
+    end: string | null;
+}
+
+const SEMESTER_START_MONTHS: Record<string, number> = {
+    "1학기": 3,
+    "여름학기": 6,
+    "2학기": 9,
+    "겨울학기": 12,
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DOTTED_DATE = String.raw`(?:\d{2,4}\s*\.\s*)?\d{1,2}\s*\.\s*\d{1,2}`;
+const DATE_RANGE_PATTERN = new RegExp(
+    String.raw`(~\s*)?(${DOTTED_DATE})\.?(?:\s*~\s*(${DOTTED_DATE}|\d{1,2}(?![\d.:시])))?`
+);
+
+/**
+ * Checks whether a string is a real calendar date in YYYY-MM-DD format.
+ *
+ * The function first matches the format, then makes sure the date does not roll over
+ * (e.g., "2024-02-30" is rejected).
+ *
+ * @param {string} value - The input string to be checked.
+ * @returns {boolean} - True if the string is a valid ISO date, false otherwise.
+ */
+export function isIsoDate(value: any): boolean {
+    if (typeof value !== "string" || !DATE_PATTERN.test(value)) {
+        return false;
     }
-    return "24:00";
+    const date = new Date(`${value}T00:00:00Z`);
+    return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+/**
+ * Normalizes a full date written with "-", "." or "/" separators (e.g., "2025.1.6", "2025-01-06") into YYYY-MM-DD.
+ *
+ * @param {string} text - The input string holding exactly one date with a four-digit year.
+ * @returns {string | null} - The date in YYYY-MM-DD format, or null if the text is not a real calendar date.
+ */
+export function normalizeFullDate(text: string): string | null {
+    const match = text?.trim().match(/^(\d{4})\s*[-./]\s*(\d{1,2})\s*[-./]\s*(\d{1,2})\.?$/);
+    if (!match) return null;
+
+    const date = formatDate(Number(match[1]), Number(match[2]), Number(match[3]));
+    return isIsoDate(date) ? date : null;
+}
+
+/**
+ * Counts the calendar days of an inclusive date range (e.g., "2025-01-01" to "2025-01-07" is 7 days).
+ *
+ * @param {string} start - The first day in YYYY-MM-DD format.
+ * @param {string} end - The last day in YYYY-MM-DD format.
+ * @returns {number} - The number of days, or 0 or less if `end` is before `start`.
+ */
+export function countDays(start: string, end: string): number {
+    const millis = Date.parse(`${end}T00:00:00Z`) - Date.parse(`${start}T00:00:00Z`);
+    return Math.round(millis / 86_400_000) + 1;
+}
+
+/**
+ * Returns the approximate start date of an internship program.
+ *
+ * The date is used as the reference point for resolving dates written without a year. Recruiting for a
+ * program happens in the months around its start, so the closest candidate year is the right one.
+ *
+ * @param {DateContext} context - The program's year and semester as set by `handleInternshipName`.
+ * @returns {Date | null} - The first day of the program's starting month, or null if the year is unknown.
+ */
+export function getProgramReferenceDate(context: DateContext): Date | null {
+    if (!context?.year) return null;
+    const month = SEMESTER_START_MONTHS[context.semester] ?? 1;
+    return new Date(Date.UTC(context.year, month - 1, 1));
 }
 
 /**
- * Standardizes date formats in the provided object.
+ * Resolves a dotted date token into a YYYY-MM-DD date.
  *
- * The function processes all string values in the given object and checks for date-like patterns.
- * It normalizes dates to a standardized format (YYYY-MM-DD) and resolves partial dates by using the last known year.
- * It handles three date formats: full dates (e.g., "2023.01.01"), partial dates (e.g., "01.01"), and dates with a tilde (~) prefix (e.g., "~2023.01.01").
+ * The function accepts full dates ("2024.11.15", "24. 11. 04") and year-less dates ("12.16"). Two-digit
+ * years are placed in the century of the program year. Year-less dates take the year that puts them
+ * closest to the program's start date, so "12.16" is December 2024 for the 2025 1st semester. If no
+ * program year is known, a year-less date cannot be resolved.
  *
- * @param {Record<string, any>} parsedObject - The object containing the parsed data, where date values will be standardized.
- * @returns {Record<string, any>} - The object with standardized date formats.
+ * @param {string} token - The input string representing a date (e.g., "24.11.04" or "12.16").
+ * @param {DateContext} context - The program's year and semester used to resolve missing years.
+ * @returns {string | null} - The resolved date in YYYY-MM-DD format, or null if it is invalid or unresolvable.
  */
-export function standardizeDates(parsedObject: Record<string, any>): Record<string, any> {
-    const fullDatePattern = /^\d{2,4}\s*\.\s*\d{2}\s*\.\s*\d{2}$/;
-    const partialDatePattern = /^\d{2}\s*\.\s*\d{2}$/;
-    const tildeDatePattern = /^~\d{2,4}\s*\.\s*\d{2}\s*\.\s*\d{2}$/;
-    const dateLikePattern = /(~?\d{2,4}\s*\.\s*\d{2}\s*\.\s*\d{2})|(~?\d{2}\s*\.\s*\d{2})/g;
-
-    let lastKnownYear = null;
-
-    for (const key in parsedObject) {
-        const value = parsedObject[key];
-        if (typeof value === "string") {
-            parsedObject[key] = value.replace(/\s*\.\s*/g, ".").trim();
+export function resolveDate(token: string, context: DateContext): string | null {
+    const parts = token.split(".").map((part) => part.trim()).filter((part) => part.length > 0);
+    if (parts.length < 2 || parts.length > 3) return null;
+
+    const [month, day] = parts.slice(-2).map(Number);
+    let year: number;
+
+    if (parts.length === 3) {
+        year = Number(parts[0]);
+        if (parts[0].length === 2) {
+            const century = context?.year ? Math.floor(context.year / 100) * 100 : 2000;
+            year += century;
         }
-    }
+    } else {
+        const reference = getProgramReferenceDate(context);
+        if (!reference) return null;
 
-    for (const key in parsedObject) {
-        const value = parsedObject[key];
-        if (typeof value !== "string") continue;
-
-        const matches = value.match(dateLikePattern);
-        if (!matches) continue;
-
-        let transformedValue = value;
-        matches.forEach((match) => {
-            const normalizedMatch = match.replace(/\s*\.\s*/g, ".").trim();
-
-            let transformedDate = normalizedMatch;
-
-            if (tildeDatePattern.test(normalizedMatch)) {
-                const dateWithoutTilde = normalizedMatch.slice(1);
-                const components = dateWithoutTilde.split(".");
-                const year = components[0].length === 2 ? `20${components[0]}` : components[0];
-                transformedDate = `~${year}-${components[1]}-${components[2]}`;
-                lastKnownYear = year;
-            } else if (fullDatePattern.test(normalizedMatch)) {
-                const components = normalizedMatch.split(".");
-                const year = components[0].length === 2 ? `20${components[0]}` : components[0];
-                transformedDate = `${year}-${components[1]}-${components[2]}`;
-                lastKnownYear = year;
-            } else if (partialDatePattern.test(normalizedMatch) && lastKnownYear) {
-                const components = normalizedMatch.split(".");
-                transformedDate = `${lastKnownYear}-${components[0]}-${components[1]}`;
-            }
-
-            transformedValue = transformedValue.replace(match, transformedDate);
+        const candidates = [-1, 0, 1].map((offset) => reference.getUTCFullYear() + offset);
+        year = candidates.reduce((best, candidate) => {
+            const distance = Math.abs(Date.UTC(candidate, month - 1, day) - reference.getTime());
+            const bestDistance = Math.abs(Date.UTC(best, month - 1, day) - reference.getTime());
+            return distance < bestDistance ? candidate : best;
         });
-
-        parsedObject[key] = transformedValue;
     }
 
-    return parsedObject;
+    const date = formatDate(year, month, day);
+    return isIsoDate(date) ? date : null;
 }
 
 /**
- * Converts a time string into ISO 8601 format (HH:mm).
+ * Parses the first date or date range found in a string.
  *
- * The function matches the input string (e.g., "12시 30분") to extract the hour and minute, and converts them into
- * a formatted time string in the ISO 8601 format (HH:mm). If the input format is invalid, an error is thrown.
+ * The function understands ranges such as "24.11.27~12.03", "11. 27~28" and "~12.10". An end date
+ * without a year takes the year of the start date (moving to the next year if it would otherwise come
+ * before the start), and an end written as a bare day takes the start's month. A single date is returned
+ * as both start and end; a leading "~" means only the end is known.
  *
- * @param {string} time - The input string representing the time (e.g., "12시 30분").
- * @returns {string} - The time in ISO 8601 format (HH:mm).
- * @throws {Error} - Throws an error if the input time format is invalid.
+ * @param {string} text - The input string containing a date or a date range.
+ * @param {DateContext} context - The program's year and semester used to resolve missing years.
+ * @returns {DateRange | null} - The parsed range, or null if the string contains no resolvable date.
  */
-export function convertToISO8601(time: string): string {
-    const match = time.match(/(\d{1,2})시\s*(\d{1,2})분/);
-    if (!match) {
-        throw new Error(`Invalid time format: ${time}`);
+export function parseDateRange(text: string, context: DateContext): DateRange | null {
+    const match = text.match(DATE_RANGE_PATTERN);
+    if (!match) return null;
+
+    const [, openStart, first, second] = match;
+    const firstDate = resolveDate(first, context);
+    if (!firstDate) return null;
+
+    if (openStart) {
+        return {start: null, end: firstDate};
+    }
+    if (!second) {
+        return {start: firstDate, end: firstDate};
+    }
+
+    const [startYear, startMonth, startDay] = firstDate.split("-").map(Number);
+    let end: string | null;
+
+    if (!second.includes(".")) {
+        const day = Number(second);
+        end = day >= startDay
+            ? formatDate(startYear, startMonth, day)
+            : formatDate(startYear + Math.floor(startMonth / 12), startMonth % 12 + 1, day);
+    } else if (second.split(".").filter((part) => part.trim()).length === 3) {
+        end = resolveDate(second, context);
+    } else {
+        const [month, day] = second.split(".").map(Number);
+        end = formatDate(startYear, month, day);
+        if (end < firstDate) {
+            end = formatDate(startYear + 1, month, day);
+        }
     }
-    const hour = String(match[1]).padStart(2, '0');
-    const minute = String(match[2]).padStart(2, '0');
-    return `${hour}:${minute}`;
+
+    return {start: firstDate, end: isIsoDate(end) ? end : null};
+}
+
+/**
+ * Extracts a time of day from a Korean time expression and converts it into HH:mm format.
+ *
+ * The function supports forms such as "오후 11시59분", "13시까지", "오전 11:59" and "18:00". Hours
+ * marked with "오후" are moved to the afternoon unless they are already written in 24-hour form.
+ *
+ * @param {string} text - The input string containing a time expression.
+ * @returns {string | null} - The time in HH:mm format, or null if no time is found.
+ */
+export function parseKoreanTime(text: string): string | null {
+    const match = text.match(/(오전|오후)?\s*(\d{1,2})\s*(?:시\s*(?:(\d{1,2})\s*분)?|:\s*(\d{2}))/);
+    if (!match) return null;
+
+    const [, meridiem, hourText, minuteWithSi, minuteWithColon] = match;
+    let hour = Number(hourText);
+    const minute = Number(minuteWithSi ?? minuteWithColon ?? 0);
+
+    if (meridiem === "오후" && hour < 12) hour += 12;
+    if (meridiem === "오전" && hour === 12) hour = 0;
+    if (hour > 24 || minute > 59) return null;
+
+    return `${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}`;
+}
+
+function formatDate(year: number, month: number, day: number): string {
+    return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
 }
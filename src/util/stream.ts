@@ -0,0 +1,201 @@
+import stream from "stream";
+import {createGunzip} from "node:zlib";
+
+/**
+ * Checks whether a raw crawl object is gzip-compressed, by its key or its Content-Encoding.
+ *
+ * @param {string} key - The S3 key of the object (e.g., "2024/11/crawl.json.gz").
+ * @param {string} contentEncoding - The Content-Encoding of the object, if any.
+ * @returns {boolean} - True if the object has to be gunzipped before parsing.
+ */
+export function isGzipped(key: string, contentEncoding?: string): boolean {
+    return key.endsWith(".gz") || /\bgzip\b/i.test(contentEncoding ?? "");
+}
+
+/**
+ * Parses records from a stream holding either a JSON array of objects or newline-delimited JSON.
+ *
+ * The format is detected from the first non-whitespace character: "[" starts a JSON array, anything else is
+ * read as NDJSON. Records are yielded one at a time as soon as they are complete, so only the record being
+ * parsed is held in memory, whatever the size of the stream.
+ *
+ * @param {stream.Readable} input - The raw crawl stream.
+ * @param {{gzip?: boolean}} options - Whether the stream is gzip-compressed.
+ * @returns {AsyncGenerator<Record<string, any>>} - The parsed records, in stream order.
+ * @throws {Error} - Throws if the stream is not a valid JSON array or NDJSON.
+ */
+export async function* readJsonRecords(
+    input: stream.Readable,
+    options: { gzip?: boolean } = {},
+): AsyncGenerator<Record<string, any>> {
+    const source = options.gzip ? input.pipe(createGunzip()) : input;
+    source.setEncoding("utf-8");
+
+    const chunks = source[Symbol.asyncIterator]() as AsyncIterator<string>;
+    let first = await chunks.next();
+    while (!first.done && first.value.trim().length === 0) {
+        first = await chunks.next();
+    }
+    if (first.done) {
+        return;
+    }
+
+    const rest = {[Symbol.asyncIterator]: () => chunks};
+    if (first.value.trimStart().startsWith("[")) {
+        yield* parseJsonArray(first.value, rest);
+    } else {
+        yield* parseNdjson(first.value, rest);
+    }
+}
+
+/**
+ * Groups the items of an async iterable into arrays of at most `size` items.
+ *
+ * @param {AsyncIterable<T>} items - The items to group.
+ * @param {number} size - The maximum batch size.
+ * @returns {AsyncGenerator<T[]>} - The batches, the last one possibly smaller.
+ */
+export async function* inBatches<T>(items: AsyncIterable<T>, size: number): AsyncGenerator<T[]> {
+    let batch: T[] = [];
+    for await (const item of items) {
+        batch.push(item);
+        if (batch.length >= size) {
+            yield batch;
+            batch = [];
+        }
+    }
+    if (batch.length > 0) {
+        yield batch;
+    }
+}
+
+/**
+ * Starts consuming an async iterable right away, keeping at most `size` items ready ahead of the reader.
+ *
+ * The source is pulled again only as the reader takes items, so a slow reader holds back the source
+ * instead of letting it buffer everything. An error of the source is thrown when the reader reaches it.
+ * Up to `size` items are requested at once, which async generators queue and answer in order.
+ *
+ * @param {AsyncIterable<T>} source - The items to read ahead.
+ * @param {number} size - The maximum number of items read ahead.
+ * @returns {AsyncGenerator<T>} - The items of the source, in order.
+ */
+export function readAhead<T>(source: AsyncIterable<T>, size: number): AsyncGenerator<T> {
+    const iterator = source[Symbol.asyncIterator]();
+    const requested: Promise<IteratorResult<T>>[] = [];
+    const request = () => {
+        const next = iterator.next();
+        // The rejection is thrown when the reader reaches it; this only avoids an unhandled rejection.
+        next.catch(() => undefined);
+        requested.push(next);
+    };
+
+    for (let i = 0; i < Math.max(1, size); i++) {
+        request();
+    }
+
+    return (async function* () {
+        for (;;) {
+            const result = await requested.shift();
+            if (result.done) {
+                return;
+            }
+            request();
+            yield result.value;
+        }
+    })();
+}
+
+async function* parseNdjson(first: string, rest: AsyncIterable<string>): AsyncGenerator<Record<string, any>> {
+    let pending = "";
+    let line = 0;
+
+    for await (const chunk of prepend(first, rest)) {
+        const lines = (pending + chunk).split("\n");
+        pending = lines.pop();
+        for (const text of lines) {
+            line++;
+            if (text.trim()) yield parseRecord(text, `line ${line}`);
+        }
+    }
+    if (pending.trim()) {
+        yield parseRecord(pending, `line ${line + 1}`);
+    }
+}
+
+async function* parseJsonArray(first: string, rest: AsyncIterable<string>): AsyncGenerator<Record<string, any>> {
+    let opened = false;
+    let closed = false;
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+    let element = "";
+    let index = 0;
+
+    for await (const chunk of prepend(first, rest)) {
+        let start = depth > 0 ? 0 : -1;
+
+        for (let i = 0; i < chunk.length; i++) {
+            const char = chunk[i];
+
+            if (depth > 0) {
+                if (inString) {
+                    if (escaped) escaped = false;
+                    else if (char === "\\") escaped = true;
+                    else if (char === "\"") inString = false;
+                } else if (char === "\"") {
+                    inString = true;
+                } else if (char === "{" || char === "[") {
+                    depth++;
+                } else if (char === "}" || char === "]") {
+                    depth--;
+                    if (depth === 0) {
+                        element += chunk.slice(start, i + 1);
+                        yield parseRecord(element, `element ${index++}`);
+                        element = "";
+                        start = -1;
+                    }
+                }
+                continue;
+            }
+
+            if (/\s/.test(char) || (opened && char === ",")) {
+                continue;
+            }
+            if (closed) {
+                throw new Error(`Unexpected ${JSON.stringify(char)} after the end of the JSON array`);
+            }
+            if (!opened && char === "[") {
+                opened = true;
+            } else if (opened && char === "]") {
+                closed = true;
+            } else if (opened && char === "{") {
+                depth = 1;
+                start = i;
+            } else {
+                throw new Error(`Expected an object in the JSON array, got ${JSON.stringify(char)} (element ${index})`);
+            }
+        }
+
+        if (depth > 0) {
+            element += chunk.slice(start);
+        }
+    }
+
+    if (!closed) {
+        throw new Error("Unexpected end of the JSON array");
+    }
+}
+
+async function* prepend(first: string, rest: AsyncIterable<string>): AsyncGenerator<string> {
+    yield first;
+    yield* rest;
+}
+
+function parseRecord(text: string, position: string): Record<string, any> {
+    try {
+        return JSON.parse(text);
+    } catch (error) {
+        throw new Error(`Invalid JSON record at ${position}: ${error.message}`);
+    }
+}
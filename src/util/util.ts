@@ -9,3 +9,26 @@
 export function cleanGenericValue(value: string): string {
     return value.trim();
 }
+
+/**
+ * Serializes a value to JSON with the keys of every object sorted.
+ *
+ * Two values with the same content give the same string regardless of key order, which `JSON.stringify`
+ * does not guarantee for items read back from DynamoDB. Undefined object values are left out.
+ *
+ * @param {any} value - The value to be serialized.
+ * @returns {string} - The JSON text with sorted keys.
+ */
+export function stableStringify(value: any): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(stableStringify).join(",")}]`;
+    }
+    if (value && typeof value === "object") {
+        const entries = Object.keys(value)
+            .filter((key) => value[key] !== undefined)
+            .sort()
+            .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`);
+        return `{${entries.join(",")}}`;
+    }
+    return JSON.stringify(value);
+}
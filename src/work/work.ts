@@ -1,29 +1,223 @@
-import {convertToISO8601} from "../util/date";
+import {parseKoreanTime} from "../util/date";
+
+export const WEEKDAYS = ["MON", "TUE", "WED", "THU", "FRI", "SAT", "SUN"] as const;
+
+export type Weekday = typeof WEEKDAYS[number];
 
 /**
- * Processes and adds work start and end hours to the provided data object.
+ * The working conditions of a posting, parsed from its "근무시간" and "근무요일" fields.
  *
- * The function splits the input string by the "~" separator to extract the start and end times,
- * trims any extra whitespace, and then converts the times to ISO 8601 format using a helper function.
- * The converted times are stored in the "data" object under the keys "workStartHour" and "workEndHour".
+ * `raw` keeps the text as crawled. A field that could not be parsed is listed in `unparsed`, and the
+ * values derived from it are left out rather than guessed, so students filtering on them never see a
+ * posting in the wrong bucket.
+ */
+export interface WorkSchedule {
+    raw: { hours?: string; days?: string };
+    days: Weekday[];
+    daysPerWeek?: number;
+    startTime?: string;
+    endTime?: string;
+    overnight?: boolean;
+    breakMinutes?: number;
+    flexible: boolean;
+    negotiable?: boolean;
+    weeklyHours?: number;
+    unparsed?: ("hours" | "days")[];
+}
+
+const DAY_NAMES: Record<string, Weekday> = {
+    "월": "MON",
+    "화": "TUE",
+    "수": "WED",
+    "목": "THU",
+    "금": "FRI",
+    "토": "SAT",
+    "일": "SUN",
+};
+
+const WEEKDAY_GROUPS: Record<string, Weekday[]> = {
+    "평일": ["MON", "TUE", "WED", "THU", "FRI"],
+    "주말": ["SAT", "SUN"],
+};
+
+const RANGE_SEPARATOR = String.raw`\s*[~∼～\-–]\s*`;
+const TIME_TOKEN = String.raw`(?:오전|오후)?\s*\d{1,2}\s*(?:시(?:\s*\d{1,2}\s*분)?|:\s*\d{2})`;
+const TIME_RANGE_PATTERN = new RegExp(`(${TIME_TOKEN})${RANGE_SEPARATOR}(${TIME_TOKEN})`);
+const DAY_RANGE_PATTERN = new RegExp(`([월화수목금토일])(?:요일)?${RANGE_SEPARATOR}([월화수목금토일])(?:요일)?`);
+const BREAK_KEYWORD = /휴게|휴식|점심/;
+const FLEXIBLE_PATTERN = /유연|자율\s*출퇴근|탄력|시차\s*출퇴근|선택적\s*근로|flex/i;
+const NEGOTIABLE_PATTERN = /협의|추후|상의|조율/;
+
+/**
+ * Parses the working hours of a posting into the posting's {@link WorkSchedule}.
+ *
+ * The function understands "09시 00분 ~ 18시 00분", "9:00~18:00" and 12-hour forms such as
+ * "오전 9시 ~ 오후 6시"; an end written without 오전/오후 after a 오후 start stays in the afternoon
+ * ("오후 1시 ~ 10시" ends at 22:00), and after a 오전 start it is read in the afternoon when it would
+ * otherwise come before the start ("오전 9시 ~ 6시" ends at 18:00). An end still at or before the start
+ * is an overnight shift. A break is
+ * read from a "휴게"/"점심" clause, either as a duration ("휴게 1시간 30분") or a time range
+ * ("점심 12:00~13:00"); if none is stated, the statutory minimum for the shift length is assumed.
+ * Flexible arrangements ("유연근무", "시차출퇴근", ...) set `flexible`, with or without core hours, and
+ * "협의" sets `negotiable`. Any other text without a time range is flagged in `unparsed`.
  *
- * @param {string} value - The input string representing the working hours in the format "HH:mm ~ HH:mm".
- * @param {Record<string, any>} data - The object where the processed working hours will be stored.
+ * @param {string} value - The input string representing the working hours (e.g., "09시 00분 ~ 18시 00분").
+ * @param {Record<string, any>} data - The posting whose `workSchedule` is updated.
  */
 export function handleWorkingHours(value: string, data: Record<string, any>) {
-    const [start, end] = value.split("~").map((time) => time.trim());
-    data["workStartHour"] = convertToISO8601(start);
-    data["workEndHour"] = convertToISO8601(end);
+    const schedule = getWorkSchedule(data);
+    schedule.raw.hours = value;
+    schedule.flexible = FLEXIBLE_PATTERN.test(value);
+    if (NEGOTIABLE_PATTERN.test(value)) schedule.negotiable = true;
+
+    const breakIndex = value.search(BREAK_KEYWORD);
+    const shiftText = breakIndex >= 0 ? value.slice(0, breakIndex) : value;
+    const breakText = breakIndex >= 0 ? value.slice(breakIndex) : "";
+    const shift = parseTimeRange(shiftText);
+
+    if (!shift) {
+        if (!schedule.flexible && !schedule.negotiable) flagUnparsed(schedule, "hours");
+        return;
+    }
+
+    const span = shift.endMinutes - shift.startMinutes;
+    schedule.startTime = shift.start;
+    schedule.endTime = shift.end;
+    if (shift.overnight) schedule.overnight = true;
+    schedule.breakMinutes = parseBreakMinutes(breakText) ?? statutoryBreakMinutes(span);
 }
 
 /**
- * Parses a string representing working days into an array of individual days.
+ * Parses the working days of a posting into the posting's {@link WorkSchedule}.
  *
- * The function splits the input string by spaces and returns an array of working days.
+ * The function understands lists ("월 화 수", "월,수,금"), ranges ("월~금", "월요일-금요일", wrapping
+ * around the week as in "금~월"), "평일", "주말", "매일" and day counts ("주 3일"). "협의" sets
+ * `negotiable`; text that names no day at all is flagged in `unparsed`.
  *
- * @param {string} value - The input string representing working days (e.g., "월 화 수").
- * @returns {string[]} - An array of working days.
+ * @param {string} value - The input string representing working days (e.g., "월 화 수 목 금").
+ * @param {Record<string, any>} data - The posting whose `workSchedule` is updated.
  */
-export function parseWorkingDays(value: string): string[] {
-    return value.split(" ");
+export function handleWorkingDays(value: string, data: Record<string, any>) {
+    const schedule = getWorkSchedule(data);
+    schedule.raw.days = value;
+    if (NEGOTIABLE_PATTERN.test(value)) schedule.negotiable = true;
+
+    const days = parseWeekdays(value);
+    const countMatch = value.match(/주\s*(\d)\s*일/);
+    if (days.length > 0) schedule.days = days;
+    if (countMatch) schedule.daysPerWeek = Number(countMatch[1]);
+    else if (days.length > 0) schedule.daysPerWeek = days.length;
+
+    if (days.length === 0 && !countMatch && !schedule.negotiable) {
+        flagUnparsed(schedule, "days");
+    }
+}
+
+/**
+ * Extracts the weekdays named in a string, in week order.
+ *
+ * @param {string} value - The input string (e.g., "월~금", "월, 수, 금", "평일").
+ * @returns {Weekday[]} - The weekdays, empty if none are named.
+ */
+export function parseWeekdays(value: string): Weekday[] {
+    const days = new Set<Weekday>();
+    let text = value;
+
+    if (/매일/.test(text)) return [...WEEKDAYS];
+    for (const [group, groupDays] of Object.entries(WEEKDAY_GROUPS)) {
+        if (text.includes(group)) groupDays.forEach((day) => days.add(day));
+    }
+    text = text.replace(/평일|주말|\d\s*일/g, " ");
+
+    let range: RegExpMatchArray | null;
+    while ((range = text.match(DAY_RANGE_PATTERN))) {
+        const from = WEEKDAYS.indexOf(DAY_NAMES[range[1]]);
+        const to = WEEKDAYS.indexOf(DAY_NAMES[range[2]]);
+        for (let i = from; ; i = (i + 1) % WEEKDAYS.length) {
+            days.add(WEEKDAYS[i]);
+            if (i === to) break;
+        }
+        text = text.replace(range[0], " ");
+    }
+
+    for (const match of text.matchAll(/(?<=^|[\s,·/.()])([월화수목금토일])(?:요일)?(?=[\s,·/.()]|$)/g)) {
+        days.add(DAY_NAMES[match[1]]);
+    }
+    return WEEKDAYS.filter((day) => days.has(day));
+}
+
+/**
+ * Computes the weekly working hours of a schedule once both its hours and days are known.
+ *
+ * The daily hours are the shift minus its break, times the number of working days (the named days, or
+ * the "주 N일" count). Flexible schedules without core hours have no fixed weekly hours.
+ *
+ * @param {WorkSchedule} schedule - The parsed schedule.
+ * @returns {number | undefined} - The weekly hours rounded to two decimals, or undefined if unknown.
+ */
+export function computeWeeklyHours(schedule: WorkSchedule): number | undefined {
+    const daysPerWeek = schedule.daysPerWeek ?? (schedule.days.length || undefined);
+    if (!schedule.startTime || !schedule.endTime || !daysPerWeek) return undefined;
+
+    let span = toMinutes(schedule.endTime) - toMinutes(schedule.startTime);
+    if (span <= 0) span += 24 * 60;
+    const daily = Math.max(span - (schedule.breakMinutes ?? 0), 0);
+    return Math.round(daily * daysPerWeek / 60 * 100) / 100;
+}
+
+function getWorkSchedule(data: Record<string, any>): WorkSchedule {
+    data["workSchedule"] ??= {raw: {}, days: [], flexible: false};
+    return data["workSchedule"];
+}
+
+function flagUnparsed(schedule: WorkSchedule, field: "hours" | "days") {
+    schedule.unparsed = [...(schedule.unparsed ?? []), field];
+}
+
+function parseTimeRange(text: string) {
+    const match = text.match(TIME_RANGE_PATTERN);
+    if (!match) return null;
+
+    const start = parseKoreanTime(match[1]);
+    let end = parseKoreanTime(match[2]);
+    if (!start || !end) return null;
+
+    const startMinutes = toMinutes(start);
+    let endMinutes = toMinutes(end);
+    if (/오전|오후/.test(match[1]) && !/오전|오후/.test(match[2]) &&
+        endMinutes <= startMinutes && endMinutes < 12 * 60 && endMinutes + 12 * 60 > startMinutes) {
+        endMinutes += 12 * 60;
+        end = fromMinutes(endMinutes);
+    }
+
+    const overnight = endMinutes <= startMinutes;
+    if (overnight) endMinutes += 24 * 60;
+    return {start, end, startMinutes, endMinutes, overnight};
+}
+
+function parseBreakMinutes(text: string): number | undefined {
+    if (!text) return undefined;
+
+    const range = parseTimeRange(text);
+    if (range) return range.endMinutes - range.startMinutes;
+
+    const hours = text.match(/(\d+(?:\.\d+)?)\s*시간/);
+    const minutes = text.match(/(\d+)\s*분/);
+    if (!hours && !minutes) return undefined;
+    return Math.round(Number(hours?.[1] ?? 0) * 60) + Number(minutes?.[1] ?? 0);
+}
+
+function statutoryBreakMinutes(spanMinutes: number): number {
+    if (spanMinutes >= 9 * 60) return 60;
+    if (spanMinutes >= 4.5 * 60) return 30;
+    return 0;
+}
+
+function toMinutes(time: string): number {
+    const [hour, minute] = time.split(":").map(Number);
+    return hour * 60 + minute;
+}
+
+function fromMinutes(minutes: number): string {
+    return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
 }